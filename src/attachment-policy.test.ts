@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { Attachment } from "mailparser";
+import { planAttachments, validateAttachmentPolicy, AttachmentPolicy } from "./attachment-policy";
+
+const MB = 1024 * 1024;
+
+const file = (filename: string, contentType: string, size = 1000) => ({ filename, contentType, size }) as Attachment;
+
+const names = (list: Attachment[]) => list.map((a) => a.filename);
+const reasons = (plan: ReturnType<typeof planAttachments>) => plan.removed.map((r) => [r.attachment.filename, r.reason]);
+
+describe("planAttachments", () => {
+  const files = [file("report.PDF", "application/pdf"), file("photo.jpg", "image/jpeg"), file("setup.exe", "application/octet-stream"), file("notes", "text/plain")];
+
+  test("an empty policy keeps everything", () => {
+    expect(names(planAttachments(files, {}).kept)).toEqual(["report.PDF", "photo.jpg", "setup.exe", "notes"]);
+  });
+
+  test("deny lists remove matching types and extensions", () => {
+    const plan = planAttachments(files, { denyTypes: ["image/*"], denyExtensions: [".exe"] });
+    expect(names(plan.kept)).toEqual(["report.PDF", "notes"]);
+    expect(reasons(plan)).toEqual([
+      ["photo.jpg", "type image/jpeg denied"],
+      ["setup.exe", "extension denied"],
+    ]);
+  });
+
+  test("allow lists keep only what they name; extensions ignore case", () => {
+    expect(names(planAttachments(files, { allowExtensions: ["pdf", "JPG"] }).kept)).toEqual(["report.PDF", "photo.jpg"]);
+    const plan = planAttachments(files, { allowTypes: ["application/pdf", "text/*"] });
+    expect(names(plan.kept)).toEqual(["report.PDF", "notes"]);
+    expect(reasons(plan)[0]).toEqual(["photo.jpg", "type image/jpeg not allowed"]);
+  });
+
+  test("deny wins over allow", () => {
+    const plan = planAttachments(files, { allowTypes: ["image/*"], denyExtensions: ["jpg"] });
+    expect(plan.kept).toEqual([]);
+    expect(reasons(plan)[1]).toEqual(["photo.jpg", "extension denied"]);
+  });
+
+  test("strip removes every attachment", () => {
+    const plan = planAttachments(files, { strip: true, allowTypes: ["image/*"] });
+    expect(plan.kept).toEqual([]);
+    expect(plan.removed.every((r) => r.reason === "attachments stripped")).toBe(true);
+  });
+
+  test("over maxTotalMB the largest go first, keeping original order for the rest", () => {
+    const big = [file("a.pdf", "application/pdf", 2 * MB), file("b.pdf", "application/pdf", 5 * MB), file("c.pdf", "application/pdf", 1 * MB), file("d.pdf", "application/pdf", 3 * MB)];
+    const plan = planAttachments(big, { maxTotalMB: 4 });
+    expect(names(plan.kept)).toEqual(["a.pdf", "c.pdf"]);
+    expect(reasons(plan)).toEqual([
+      ["b.pdf", "over the 4 MB limit"],
+      ["d.pdf", "over the 4 MB limit"],
+    ]);
+    expect(names(planAttachments(big, { maxTotalMB: 11 }).kept)).toEqual(["a.pdf", "b.pdf", "c.pdf", "d.pdf"]);
+  });
+
+  test("the size limit counts only what the filters kept", () => {
+    const plan = planAttachments([file("movie.mp4", "video/mp4", 50 * MB), file("a.pdf", "application/pdf", 2 * MB)], { denyTypes: ["video/*"], maxTotalMB: 3 });
+    expect(names(plan.kept)).toEqual(["a.pdf"]);
+    expect(reasons(plan)).toEqual([["movie.mp4", "type video/mp4 denied"]]);
+  });
+
+  test("with links, attachments over the limit are linked instead of removed", () => {
+    const plan = planAttachments([file("a.pdf", "application/pdf", 2 * MB), file("b.zip", "application/zip", 9 * MB)], { maxTotalMB: 5, links: true });
+    expect(names(plan.kept)).toEqual(["a.pdf"]);
+    expect(names(plan.linked)).toEqual(["b.zip"]);
+    expect(plan.removed).toEqual([]);
+  });
+});
+
+describe("validateAttachmentPolicy", () => {
+  test("rejects unknown fields and malformed lists", () => {
+    const check = (policy: unknown) => () => validateAttachmentPolicy(policy as AttachmentPolicy, "attachments");
+    expect(check({ maxTotalMB: 10, allowTypes: ["image/*"], denyExtensions: [".exe", "bat"], links: true })).not.toThrow();
+    expect(check({ maxSize: 1 })).toThrow("attachments.maxSize: unknown field");
+    expect(check({ allowTypes: ["image"] })).toThrow("attachments.allowTypes");
+    expect(check({ denyExtensions: ["*.exe"] })).toThrow("attachments.denyExtensions");
+    expect(check({ links: true })).toThrow("attachments.links: needs maxTotalMB");
+  });
+});
@@ -0,0 +1,118 @@
+// Attachment policies - size limits, type filters, stripping and download links
+
+import { Attachment } from "mailparser";
+
+export interface AttachmentPolicy {
+  // Limit for the attachments left after filtering; the largest go first
+  maxTotalMB?: number;
+  // MIME types ("application/pdf", "image/*")
+  allowTypes?: string[];
+  denyTypes?: string[];
+  // File extensions (".pdf" or "pdf")
+  allowExtensions?: string[];
+  denyExtensions?: string[];
+  // Remove every attachment
+  strip?: boolean;
+  // Replace attachments over maxTotalMB with download links instead of removing them
+  links?: boolean;
+  linkExpiryHours?: number;
+}
+
+// What the policy did to one message for one rule; recorded on the task
+export interface AppliedAttachmentPolicy {
+  rule: string;
+  kept: number;
+  removed: { filename: string; reason: string }[];
+  linked: { filename: string; size: number; url: string; expiresAt: string }[];
+}
+
+export interface AttachmentPlan {
+  kept: Attachment[];
+  removed: { attachment: Attachment; reason: string }[];
+  // Over the size limit, to be stored and linked
+  linked: Attachment[];
+}
+
+export const DEFAULT_LINK_EXPIRY_HOURS = 72;
+
+const FIELDS: (keyof AttachmentPolicy)[] = [
+  "maxTotalMB",
+  "allowTypes",
+  "denyTypes",
+  "allowExtensions",
+  "denyExtensions",
+  "strip",
+  "links",
+  "linkExpiryHours",
+];
+
+function validateList(list: unknown, path: string, pattern: RegExp, what: string): void {
+  if (list === undefined) return;
+  if (!Array.isArray(list) || list.some((v) => typeof v !== "string" || !pattern.test(v))) {
+    throw new Error(`${path}: must be a list of ${what}`);
+  }
+}
+
+export function validateAttachmentPolicy(policy: AttachmentPolicy | undefined, path: string): void {
+  if (policy === undefined) return;
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) throw new Error(`${path}: must be an object`);
+  for (const key of Object.keys(policy)) {
+    if (!FIELDS.includes(key as keyof AttachmentPolicy)) throw new Error(`${path}.${key}: unknown field`);
+  }
+  if (policy.maxTotalMB !== undefined && !(policy.maxTotalMB > 0)) throw new Error(`${path}.maxTotalMB: must be positive`);
+  validateList(policy.allowTypes, `${path}.allowTypes`, /^[\w.+-]+\/([\w.+-]+|\*)$/, `MIME types ("type/subtype" or "type/*")`);
+  validateList(policy.denyTypes, `${path}.denyTypes`, /^[\w.+-]+\/([\w.+-]+|\*)$/, `MIME types ("type/subtype" or "type/*")`);
+  validateList(policy.allowExtensions, `${path}.allowExtensions`, /^\.?[\w-]+$/, "file extensions");
+  validateList(policy.denyExtensions, `${path}.denyExtensions`, /^\.?[\w-]+$/, "file extensions");
+  for (const key of ["strip", "links"] as const) {
+    if (policy[key] !== undefined && typeof policy[key] !== "boolean") throw new Error(`${path}.${key}: must be true or false`);
+  }
+  if (policy.links && policy.maxTotalMB === undefined) throw new Error(`${path}.links: needs maxTotalMB`);
+  if (policy.linkExpiryHours !== undefined && !(policy.linkExpiryHours > 0)) throw new Error(`${path}.linkExpiryHours: must be positive`);
+}
+
+function typeMatches(patterns: string[], contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  return patterns.some((p) => {
+    const want = p.toLowerCase();
+    return want.endsWith("/*") ? type.startsWith(want.slice(0, -1)) : type === want;
+  });
+}
+
+function extensionMatches(list: string[], filename: string): boolean {
+  const dot = filename.lastIndexOf(".");
+  const ext = dot >= 0 ? filename.slice(dot + 1).toLowerCase() : "";
+  return list.some((e) => e.replace(/^\./, "").toLowerCase() === ext);
+}
+
+// Why the policy's type and extension lists refuse an attachment, or null
+function filterReason(a: Attachment, policy: AttachmentPolicy): string | null {
+  const name = a.filename || "";
+  if (policy.denyTypes && typeMatches(policy.denyTypes, a.contentType)) return `type ${a.contentType} denied`;
+  if (policy.denyExtensions && extensionMatches(policy.denyExtensions, name)) return "extension denied";
+  if (policy.allowTypes && !typeMatches(policy.allowTypes, a.contentType)) return `type ${a.contentType} not allowed`;
+  if (policy.allowExtensions && !extensionMatches(policy.allowExtensions, name)) return "extension not allowed";
+  return null;
+}
+
+// Decide the fate of each attachment; deterministic, so a queued retry gets the same plan
+export function planAttachments(attachments: Attachment[], policy: AttachmentPolicy): AttachmentPlan {
+  const plan: AttachmentPlan = { kept: [], removed: [], linked: [] };
+  for (const a of attachments) {
+    const reason = policy.strip ? "attachments stripped" : filterReason(a, policy);
+    if (reason) plan.removed.push({ attachment: a, reason });
+    else plan.kept.push(a);
+  }
+  if (policy.maxTotalMB === undefined) return plan;
+
+  const limit = policy.maxTotalMB * 1024 * 1024;
+  let total = plan.kept.reduce((sum, a) => sum + a.size, 0);
+  for (const a of [...plan.kept].sort((x, y) => y.size - x.size)) {
+    if (total <= limit) break;
+    plan.kept.splice(plan.kept.indexOf(a), 1);
+    total -= a.size;
+    if (policy.links) plan.linked.push(a);
+    else plan.removed.push({ attachment: a, reason: `over the ${policy.maxTotalMB} MB limit` });
+  }
+  return plan;
+}
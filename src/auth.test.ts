@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { AuthConfig, clearLoginFailures, hashPassword, login, loginRetryAfter, parseCookies, recordLoginFailure, sessionPrincipal } from "./auth";
+
+describe("parseCookies", () => {
+  test("decodes values and skips ones that are not valid percent-encoding", () => {
+    expect(parseCookies("mx_session=abc; x=%E0; name=J%C3%BCrgen; broken")).toEqual({ mx_session: "abc", name: "Jürgen" });
+    expect(parseCookies(undefined)).toEqual({});
+  });
+});
+
+describe("login", () => {
+  const auth: AuthConfig = { users: [{ username: "admin", passwordHash: hashPassword("secret"), role: "admin" }] };
+
+  test("creates a session only for the right password", () => {
+    expect(login(auth, "admin", "wrong")).toBeNull();
+    expect(login(auth, "nobody", "secret")).toBeNull();
+    const session = login(auth, "admin", "secret")!;
+    expect(sessionPrincipal(auth, session)).toEqual({ name: "admin", role: "admin" });
+  });
+
+  test("an expired session is refused", () => {
+    const session = login(auth, "admin", "secret", Date.now() - 13 * 3600 * 1000)!;
+    expect(sessionPrincipal(auth, session)).toBeNull();
+  });
+});
+
+describe("failed login limit", () => {
+  test("a client is turned away after five failures until the window ends", () => {
+    const now = 1_000_000;
+    for (let i = 0; i < 4; i++) recordLoginFailure("10.0.0.1", now);
+    expect(loginRetryAfter("10.0.0.1", now)).toBe(0);
+    recordLoginFailure("10.0.0.1", now);
+    expect(loginRetryAfter("10.0.0.1", now + 60 * 1000)).toBe(14 * 60);
+    expect(loginRetryAfter("10.0.0.2", now)).toBe(0);
+    expect(loginRetryAfter("10.0.0.1", now + 15 * 60 * 1000)).toBe(0);
+  });
+
+  test("a successful login clears the count", () => {
+    for (let i = 0; i < 5; i++) recordLoginFailure("10.0.0.3");
+    expect(loginRetryAfter("10.0.0.3")).toBeGreaterThan(0);
+    clearLoginFailures("10.0.0.3");
+    expect(loginRetryAfter("10.0.0.3")).toBe(0);
+  });
+});
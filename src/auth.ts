@@ -0,0 +1,150 @@
+// Web authentication - local users, sessions and API tokens
+
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+export type Role = "viewer" | "admin";
+
+export interface AuthUser {
+  username: string;
+  // scrypt$<salt hex>$<hash hex>, generated with `mail-exchange hash-password`
+  passwordHash: string;
+  role: Role;
+}
+
+export interface ApiToken {
+  name: string;
+  token: string;
+  role: Role;
+}
+
+export interface AuthConfig {
+  users?: AuthUser[];
+  tokens?: ApiToken[];
+  sessionHours?: number;
+}
+
+export interface Principal {
+  name: string;
+  role: Role;
+}
+
+interface Session extends Principal {
+  expires: number;
+}
+
+const ROLES: Role[] = ["viewer", "admin"];
+export const SESSION_COOKIE = "mx_session";
+const sessions = new Map<string, Session>();
+
+// Failed logins per client; each attempt costs a scrypt hash, so repeated failures are turned away
+const MAX_FAILED_LOGINS = 5;
+const FAILED_LOGIN_MINUTES = 15;
+const failedLogins = new Map<string, { count: number; resetAt: number }>();
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `scrypt$${salt.toString("hex")}$${scryptSync(password, salt, 64).toString("hex")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  return safeEqual(scryptSync(password, Buffer.from(salt, "hex"), expected.length), expected);
+}
+
+// Reject malformed auth config; throws with the offending config path
+export function validateAuthConfig(auth: AuthConfig | undefined): void {
+  if (auth === undefined) return;
+  if (!auth || typeof auth !== "object") throw new Error("auth: must be an object");
+  const names = new Set<string>();
+  (auth.users || []).forEach((u, i) => {
+    const path = `auth.users[${i}]`;
+    if (!u?.username) throw new Error(`${path}.username: required`);
+    if (names.has(u.username)) throw new Error(`${path}.username: duplicate "${u.username}"`);
+    names.add(u.username);
+    if (typeof u.passwordHash !== "string" || u.passwordHash.split("$").length !== 3 || !u.passwordHash.startsWith("scrypt$")) {
+      throw new Error(`${path}.passwordHash: expected scrypt$salt$hash (run "mail-exchange hash-password")`);
+    }
+    if (!ROLES.includes(u.role)) throw new Error(`${path}.role: must be one of ${ROLES.join(", ")}`);
+  });
+  (auth.tokens || []).forEach((t, i) => {
+    const path = `auth.tokens[${i}]`;
+    if (!t?.name) throw new Error(`${path}.name: required`);
+    if (typeof t.token !== "string" || t.token.length < 16) throw new Error(`${path}.token: must be at least 16 characters`);
+    if (!ROLES.includes(t.role)) throw new Error(`${path}.role: must be one of ${ROLES.join(", ")}`);
+  });
+  if (auth.sessionHours !== undefined && !(auth.sessionHours > 0)) throw new Error("auth.sessionHours: must be positive");
+}
+
+export function hasRole(principal: Principal, role: Role): boolean {
+  return ROLES.indexOf(principal.role) >= ROLES.indexOf(role);
+}
+
+export function login(auth: AuthConfig, username: string, password: string, now = Date.now()): string | null {
+  const user = (auth.users || []).find((u) => u.username === username);
+  if (!user || !verifyPassword(password, user.passwordHash)) return null;
+  // Sessions that are never looked up again would otherwise stay in memory
+  for (const [id, session] of sessions) if (session.expires < now) sessions.delete(id);
+  const id = randomBytes(32).toString("hex");
+  sessions.set(id, { name: user.username, role: user.role, expires: now + (auth.sessionHours ?? 12) * 3600 * 1000 });
+  return id;
+}
+
+// Seconds until this client may try to log in again, or 0 if it may now
+export function loginRetryAfter(client: string, now = Date.now()): number {
+  const entry = failedLogins.get(client);
+  if (!entry || entry.resetAt <= now) return 0;
+  return entry.count >= MAX_FAILED_LOGINS ? Math.ceil((entry.resetAt - now) / 1000) : 0;
+}
+
+export function recordLoginFailure(client: string, now = Date.now()): void {
+  for (const [key, entry] of failedLogins) if (entry.resetAt <= now) failedLogins.delete(key);
+  const entry = failedLogins.get(client);
+  if (entry) entry.count++;
+  else failedLogins.set(client, { count: 1, resetAt: now + FAILED_LOGIN_MINUTES * 60 * 1000 });
+}
+
+export function clearLoginFailures(client: string): void {
+  failedLogins.delete(client);
+}
+
+export function logout(sessionId: string): void {
+  sessions.delete(sessionId);
+}
+
+// Resolve a session cookie; the user's current role is re-read so config edits apply immediately
+export function sessionPrincipal(auth: AuthConfig, sessionId: string): Principal | null {
+  const session = sessions.get(sessionId);
+  if (!session) return null;
+  const user = (auth.users || []).find((u) => u.username === session.name);
+  if (!user || session.expires < Date.now()) {
+    sessions.delete(sessionId);
+    return null;
+  }
+  return { name: user.username, role: user.role };
+}
+
+export function tokenPrincipal(auth: AuthConfig, token: string): Principal | null {
+  const given = Buffer.from(token);
+  const match = (auth.tokens || []).find((t) => safeEqual(Buffer.from(t.token), given));
+  return match ? { name: `token:${match.name}`, role: match.role } : null;
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq <= 0) continue;
+    try {
+      cookies[part.slice(0, eq).trim()] = decodeURIComponent(part.slice(eq + 1).trim());
+    } catch {
+      // Malformed percent-encoding; not one of our cookies
+    }
+  }
+  return cookies;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { CatchUpOptions, CheckpointMailbox, MailboxCheckpoint, catchUp, initialCheckpoint, uidsAfter } from "./checkpoints";
+import { createPipeline } from "./pipeline";
+
+// A folder holding these UIDs; unseen ones are listed separately
+function fakeMailbox(uids: number[], unseen: number[] = []) {
+  const fetched: number[][] = [];
+  const mailbox: CheckpointMailbox = {
+    async search(criteria) {
+      const [c] = criteria;
+      if (c === "UNSEEN") return unseen;
+      if (c === "ALL") return uids;
+      const from = Number(String((c as string[])[1]).split(":")[0]);
+      const matching = uids.filter((uid) => uid >= from);
+      return matching.length || !uids.length ? matching : [Math.max(...uids)];
+    },
+    async fetch(batch) {
+      fetched.push(batch);
+      return batch.map((uid) => ({ uid, raw: Buffer.from(`message ${uid}`) }));
+    },
+  };
+  return { mailbox, fetched };
+}
+
+function options(overrides: Partial<CatchUpOptions> & { handled?: number[] } = {}): CatchUpOptions & { saved: number[] } {
+  const saved: number[] = [];
+  return {
+    pipeline: createPipeline({ concurrency: 4, queueSize: 100 }),
+    key: "account/INBOX",
+    active: () => true,
+    handle: async (uid) => void overrides.handled?.push(uid),
+    save: () => saved.push(Date.now()),
+    saved,
+    ...overrides,
+  };
+}
+
+describe("initialCheckpoint", () => {
+  test("starts just before the oldest unread message", async () => {
+    const { mailbox } = fakeMailbox([3, 4, 5, 6], [5, 6]);
+    expect(await initialCheckpoint(mailbox, { uidvalidity: 7, uidnext: 7 })).toEqual({ uidValidity: 7, lastUid: 4 });
+  });
+
+  test("starts after the newest message when everything is read", async () => {
+    const { mailbox } = fakeMailbox([3, 4]);
+    expect(await initialCheckpoint(mailbox, { uidvalidity: 7, uidnext: 9 })).toEqual({ uidValidity: 7, lastUid: 8 });
+    expect(await initialCheckpoint(mailbox, { uidvalidity: 7 })).toEqual({ uidValidity: 7, lastUid: 4 });
+    expect(await initialCheckpoint(fakeMailbox([]).mailbox, { uidvalidity: 7 })).toEqual({ uidValidity: 7, lastUid: 0 });
+  });
+});
+
+describe("catchUp", () => {
+  test("only UIDs after the checkpoint are caught up", async () => {
+    const { mailbox } = fakeMailbox([1, 2, 3]);
+    expect(await uidsAfter({ uidValidity: 1, lastUid: 1 }, mailbox)).toEqual([2, 3]);
+    // n:* still matches the newest message when nothing is newer
+    expect(await uidsAfter({ uidValidity: 1, lastUid: 3 }, mailbox)).toEqual([]);
+  });
+
+  test("the checkpoint advances past each handled message in order", async () => {
+    const { mailbox } = fakeMailbox([5, 6, 7]);
+    const checkpoint: MailboxCheckpoint = { uidValidity: 1, lastUid: 4 };
+    const seen: number[] = [];
+    const opts = options({ handle: async (uid) => void seen.push(checkpoint.lastUid, uid) });
+    await catchUp(checkpoint, mailbox, await uidsAfter(checkpoint, mailbox), opts);
+    expect(seen).toEqual([4, 5, 5, 6, 6, 7]);
+    expect(checkpoint.lastUid).toBe(7);
+    expect(opts.saved.length).toBe(3);
+    expect(await uidsAfter(checkpoint, mailbox)).toEqual([]);
+  });
+
+  test("a failure stops the run and the next one resumes from the failed message", async () => {
+    const { mailbox } = fakeMailbox([1, 2, 3, 4]);
+    const checkpoint: MailboxCheckpoint = { uidValidity: 1, lastUid: 0 };
+    const handled: number[] = [];
+    let failing = true;
+    const handle = async (uid: number) => {
+      if (uid === 3 && failing) throw new Error("database is locked");
+      handled.push(uid);
+    };
+    await expect(catchUp(checkpoint, mailbox, await uidsAfter(checkpoint, mailbox), options({ handle }))).rejects.toThrow("database is locked");
+    expect(handled).toEqual([1, 2]);
+    expect(checkpoint.lastUid).toBe(2);
+
+    failing = false;
+    await catchUp(checkpoint, mailbox, await uidsAfter(checkpoint, mailbox), options({ handle }));
+    expect(handled).toEqual([1, 2, 3, 4]);
+    expect(checkpoint.lastUid).toBe(4);
+  });
+
+  test("messages are fetched in batches no larger than the pipeline's room", async () => {
+    const uids = Array.from({ length: 30 }, (_, i) => i + 1);
+    const { mailbox, fetched } = fakeMailbox(uids);
+    const handled: number[] = [];
+    const checkpoint: MailboxCheckpoint = { uidValidity: 1, lastUid: 0 };
+    await catchUp(checkpoint, mailbox, uids, options({ pipeline: createPipeline({ concurrency: 1, queueSize: 8 }), handled }));
+    expect(fetched.every((batch) => batch.length <= 8)).toBe(true);
+    expect(fetched.flat()).toEqual(uids);
+    expect(handled).toEqual(uids);
+    expect(checkpoint.lastUid).toBe(30);
+  });
+
+  test("nothing more is handled once the mailbox is no longer active", async () => {
+    const { mailbox } = fakeMailbox([1, 2, 3]);
+    const checkpoint: MailboxCheckpoint = { uidValidity: 1, lastUid: 0 };
+    let active = true;
+    const handled: number[] = [];
+    const handle = async (uid: number) => {
+      handled.push(uid);
+      active = false;
+    };
+    await catchUp(checkpoint, mailbox, [1, 2, 3], options({ active: () => active, handle }));
+    expect(handled).toEqual([1]);
+    expect(checkpoint.lastUid).toBe(1);
+  });
+});
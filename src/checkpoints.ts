@@ -0,0 +1,77 @@
+// Mailbox checkpoints - the last processed UID per folder, and catching up from it
+
+import { createPipeline } from "./pipeline";
+
+// Last processed UID per mailbox, valid for one UIDVALIDITY
+export interface MailboxCheckpoint {
+  uidValidity: number;
+  lastUid: number;
+}
+
+// The parts of an open IMAP folder that checkpoints need
+export interface CheckpointMailbox {
+  search(criteria: unknown[]): Promise<number[]>;
+  // Raw messages for these UIDs, in UID order
+  fetch(uids: number[]): Promise<{ uid: number; raw: Buffer }[]>;
+}
+
+export interface CatchUpOptions {
+  pipeline: ReturnType<typeof createPipeline>;
+  // Pipeline key; messages with the same key are handled one at a time
+  key: string;
+  // False once the mailbox was stopped or reconnected; nothing more is fetched or handled
+  active(): boolean;
+  handle(uid: number, raw: Buffer): Promise<void>;
+  // Persist the checkpoints after one moved
+  save(): void;
+}
+
+export const FETCH_BATCH = 20;
+
+// Starting point for a mailbox seen for the first time (or after a UIDVALIDITY
+// change): just before its oldest unread message, else its newest
+export async function initialCheckpoint(mailbox: CheckpointMailbox, box: { uidvalidity: number; uidnext?: number }): Promise<MailboxCheckpoint> {
+  const unseen = await mailbox.search(["UNSEEN"]);
+  let lastUid: number;
+  if (unseen.length) lastUid = Math.min(...unseen) - 1;
+  else if (box.uidnext) lastUid = box.uidnext - 1;
+  else lastUid = Math.max(0, ...(await mailbox.search(["ALL"])));
+  return { uidValidity: box.uidvalidity, lastUid };
+}
+
+// UIDs newer than the checkpoint, oldest first. "n:*" always matches the newest
+// message, even when it is older than n, so the result is filtered again.
+export async function uidsAfter(checkpoint: MailboxCheckpoint, mailbox: CheckpointMailbox): Promise<number[]> {
+  return (await mailbox.search([["UID", `${checkpoint.lastUid + 1}:*`]])).filter((uid) => uid > checkpoint.lastUid).sort((a, b) => a - b);
+}
+
+// Handle these UIDs in order. Messages are fetched only as far as the pipeline has
+// room. The checkpoint only advances after a message is handled; after a failure
+// the rest of the run is skipped, to be fetched again on the next catch-up.
+export async function catchUp(checkpoint: MailboxCheckpoint, mailbox: CheckpointMailbox, uids: number[], options: CatchUpOptions): Promise<void> {
+  const { pipeline, key, active } = options;
+  let failed: unknown = null;
+  const jobs: Promise<unknown>[] = [];
+  for (let i = 0; i < uids.length && !failed; ) {
+    const room = await pipeline.room();
+    if (!room || !active()) break;
+    const batch = uids.slice(i, i + Math.min(FETCH_BATCH, room));
+    i += batch.length;
+    for (const { uid, raw } of await mailbox.fetch(batch)) {
+      jobs.push(
+        pipeline.add(key, async () => {
+          if (failed || !active()) return;
+          try {
+            await options.handle(uid, raw);
+            checkpoint.lastUid = uid;
+            options.save();
+          } catch (err) {
+            failed = err;
+          }
+        })
+      );
+    }
+  }
+  await Promise.all(jobs);
+  if (failed) throw failed;
+}
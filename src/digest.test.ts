@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildDigestMessage,
+  digestDueAt,
+  digestItemsToSend,
+  digestLeftovers,
+  nextDigestAt,
+  planDigest,
+  validateDigest,
+  DigestConfig,
+  DigestItem,
+} from "./digest";
+
+// Schedules are in server local time, so build the dates the same way
+const at = (day: number, hours: number, minutes = 0, seconds = 0) => new Date(2026, 0, day, hours, minutes, seconds);
+
+const item = (id: number, subject: string, attachmentCount = 0, pendingRecipients: string[] | null = null): DigestItem => ({
+  id,
+  rule: "news",
+  taskId: id,
+  messageId: null,
+  sender: "alice@example.com",
+  subject,
+  size: 100,
+  attachmentCount,
+  receivedAt: "2026-01-15T08:30:00.000Z",
+  pendingRecipients,
+});
+
+describe("nextDigestAt", () => {
+  test("hourly sends on the next full hour", () => {
+    const hourly: DigestConfig = { schedule: "hourly" };
+    expect(nextDigestAt(hourly, at(15, 8, 30, 15))).toEqual(at(15, 9));
+    expect(nextDigestAt(hourly, at(15, 9))).toEqual(at(15, 10));
+    expect(nextDigestAt(hourly, at(15, 23, 59, 59))).toEqual(at(16, 0));
+  });
+
+  test("daily sends at `at` today, or tomorrow once it has passed", () => {
+    const daily: DigestConfig = { schedule: "daily", at: "18:30" };
+    expect(nextDigestAt(daily, at(15, 8))).toEqual(at(15, 18, 30));
+    expect(nextDigestAt(daily, at(15, 18, 30))).toEqual(at(16, 18, 30));
+    expect(nextDigestAt(daily, at(15, 18, 30, 1))).toEqual(at(16, 18, 30));
+    expect(nextDigestAt(daily, at(31, 20))).toEqual(new Date(2026, 1, 1, 18, 30));
+  });
+
+  test("daily defaults to 09:00", () => {
+    expect(nextDigestAt({ schedule: "daily" }, at(15, 8, 59))).toEqual(at(15, 9));
+    expect(nextDigestAt({ schedule: "daily" }, at(15, 9, 0, 30))).toEqual(at(16, 9));
+  });
+});
+
+describe("validateDigest", () => {
+  test("rejects bad schedules and times", () => {
+    expect(() => validateDigest({ schedule: "daily", at: "7:05", maxMessages: 20 }, "digest")).not.toThrow();
+    expect(() => validateDigest({ schedule: "weekly" } as unknown as DigestConfig, "digest")).toThrow("digest.schedule");
+    expect(() => validateDigest({ schedule: "daily", at: "24:00" }, "digest")).toThrow("digest.at");
+    expect(() => validateDigest({ schedule: "hourly", at: "09:00" }, "digest")).toThrow('digest.at: only used with schedule "daily"');
+    expect(() => validateDigest({ schedule: "hourly", maxMessages: 0 }, "digest")).toThrow("digest.maxMessages");
+  });
+});
+
+describe("due times", () => {
+  const hourly: DigestConfig = { schedule: "hourly", maxMessages: 3 };
+  const fresh = { ...item(1, "new"), receivedAt: at(15, 8, 30).toISOString() };
+
+  test("a new batch is due on the schedule after its oldest message, or at once when full", () => {
+    expect(digestDueAt(hourly, [fresh])).toBe(at(15, 9).getTime());
+    expect(digestDueAt(hourly, [fresh, item(2, "b"), item(3, "c")])).toBe(0);
+    expect(digestDueAt(hourly, [])).toBe(Infinity);
+  });
+
+  test("a retry is due at its backoff time, sooner than the regular batch", () => {
+    const retry = item(2, "missed", 0, ["b@example.org"]);
+    expect(digestDueAt(hourly, [retry], at(15, 8, 45).getTime())).toBe(at(15, 8, 45).getTime());
+    expect(digestDueAt(hourly, [fresh, retry], at(15, 10).getTime())).toBe(at(15, 9).getTime());
+    expect(digestDueAt(hourly, [retry])).toBe(0);
+  });
+
+  test("only retries go out before the regular batch is due, unless everything is asked for", () => {
+    const retry = item(2, "missed", 0, ["b@example.org"]);
+    expect(digestItemsToSend(hourly, [fresh, retry], at(15, 8, 45).getTime()).map((i) => i.id)).toEqual([2]);
+    expect(digestItemsToSend(hourly, [fresh, retry], at(15, 8, 45).getTime(), true).map((i) => i.id)).toEqual([1, 2]);
+    expect(digestItemsToSend(hourly, [fresh, retry], at(15, 9).getTime()).map((i) => i.id)).toEqual([1, 2]);
+  });
+});
+
+describe("partial retry", () => {
+  const recipients = ["A@example.org", " b@example.org"];
+
+  test("each recipient gets the messages it is owed", () => {
+    const items = [item(1, "one"), item(2, "two", 0, ["b@example.org"])];
+    expect(planDigest(items, recipients).map((s) => [s.email, s.items.map((i) => i.id)])).toEqual([
+      ["A@example.org", [1]],
+      ["b@example.org", [1, 2]],
+    ]);
+    expect(planDigest([item(3, "three", 0, ["gone@example.org"])], recipients)).toEqual([]);
+  });
+
+  test("messages stay only for the recipients that were not reached", () => {
+    const items = [item(1, "one"), item(2, "two", 0, ["a@example.org"])];
+    const left = digestLeftovers(items, recipients, ["B@example.org"]);
+    expect(left.map((l) => [l.item.id, l.owed, l.missed])).toEqual([
+      [1, ["a@example.org", "b@example.org"], ["b@example.org"]],
+      [2, ["a@example.org"], []],
+    ]);
+  });
+
+  test("a retry for one recipient is not sent to the others again", () => {
+    const [left] = digestLeftovers([item(1, "one")], recipients, ["b@example.org"]);
+    const retried = { ...left.item, pendingRecipients: left.missed };
+    expect(planDigest([retried], recipients).map((s) => s.email)).toEqual(["b@example.org"]);
+    expect(digestLeftovers([retried], recipients, []).map((l) => l.missed)).toEqual([[]]);
+  });
+});
+
+describe("buildDigestMessage", () => {
+  test("lists each message and attaches the originals in order", () => {
+    const message = buildDigestMessage(
+      [
+        { item: item(1, "<b>Hello</b>", 2), raw: Buffer.from("one") },
+        { item: item(2, "a/b: c?"), raw: Buffer.from("two") },
+      ],
+      { from: "mx@example.org", to: "bob@example.org", subject: "Digest", rule: "news" }
+    );
+    expect(message.text).toContain("2 messages matched rule news.");
+    expect(message.text).toContain("1. 2026-01-15 08:30  alice@example.com\n   <b>Hello</b> (2 attachments)");
+    expect(message.html).toContain("&lt;b&gt;Hello&lt;/b&gt;");
+    expect(message.html).not.toContain("<b>Hello</b>");
+    expect((message.attachments as { filename: string }[]).map((a) => a.filename)).toEqual(["01-_b_Hello_b_.eml", "02-a_b_ c_.eml"]);
+  });
+});
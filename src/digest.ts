@@ -0,0 +1,151 @@
+// Digest delivery - a rule's mail collected into one message sent on a schedule
+
+import { SendMailOptions } from "nodemailer";
+
+export interface DigestConfig {
+  // "hourly": on the hour; "daily": every day at `at` (server local time)
+  schedule: "hourly" | "daily";
+  at?: string;
+  // Send before the scheduled time once this many messages are waiting
+  maxMessages?: number;
+}
+
+// A message waiting in a rule's batch; the raw source is stored with it
+export interface DigestItem {
+  id: number;
+  rule: string;
+  // The task recorded for the message, updated once the digest goes out
+  taskId: number;
+  messageId: string | null;
+  sender: string;
+  subject: string;
+  size: number;
+  attachmentCount: number;
+  receivedAt: string;
+  // Recipients (lower case) a failed send still owes this message to; null for all of the rule's
+  pendingRecipients: string[] | null;
+}
+
+export interface DigestOptions {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  rule: string;
+  headers?: [string, string][];
+}
+
+export const DEFAULT_DIGEST_AT = "09:00";
+export const DEFAULT_MAX_DIGEST_MESSAGES = 100;
+
+export function validateDigest(digest: DigestConfig | undefined, path: string): void {
+  if (digest === undefined) return;
+  if (!digest || typeof digest !== "object" || Array.isArray(digest)) throw new Error(`${path}: must be an object`);
+  for (const key of Object.keys(digest)) {
+    if (!["schedule", "at", "maxMessages"].includes(key)) throw new Error(`${path}.${key}: unknown field`);
+  }
+  if (digest.schedule !== "hourly" && digest.schedule !== "daily") throw new Error(`${path}.schedule: must be "hourly" or "daily"`);
+  if (digest.at !== undefined) {
+    if (digest.schedule !== "daily") throw new Error(`${path}.at: only used with schedule "daily"`);
+    const m = typeof digest.at === "string" ? /^(\d{1,2}):(\d{2})$/.exec(digest.at) : null;
+    if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) throw new Error(`${path}.at: must be a time like "09:00"`);
+  }
+  if (digest.maxMessages !== undefined && (!Number.isInteger(digest.maxMessages) || digest.maxMessages <= 0)) {
+    throw new Error(`${path}.maxMessages: must be a positive integer`);
+  }
+}
+
+// The first scheduled send strictly after `after`
+export function nextDigestAt(digest: DigestConfig, after: Date): Date {
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  if (digest.schedule === "hourly") {
+    next.setMinutes(0);
+    next.setHours(next.getHours() + 1);
+    return next;
+  }
+  const [hours, minutes] = (digest.at || DEFAULT_DIGEST_AT).split(":").map(Number);
+  next.setHours(hours, minutes);
+  if (next <= after) next.setDate(next.getDate() + 1);
+  return next;
+}
+
+// When a regular batch goes out: the first scheduled time after its oldest new
+// message, or right away once maxMessages new ones are waiting
+export function regularDigestDueAt(digest: DigestConfig, items: DigestItem[]): number {
+  const fresh = items.filter((i) => !i.pendingRecipients);
+  if (!fresh.length) return Infinity;
+  if (fresh.length >= (digest.maxMessages ?? DEFAULT_MAX_DIGEST_MESSAGES)) return 0;
+  return nextDigestAt(digest, new Date(fresh[0].receivedAt)).getTime();
+}
+
+// The regular batch, or sooner the retry of messages some recipients did not get
+// (due at `retryAt`, or right away when no retry is scheduled)
+export function digestDueAt(digest: DigestConfig, items: DigestItem[], retryAt?: number): number {
+  const retry = items.some((i) => i.pendingRecipients) ? (retryAt ?? 0) : Infinity;
+  return Math.min(regularDigestDueAt(digest, items), retry);
+}
+
+// The messages to send now: all of them once the regular batch is due (or when
+// everything is asked for), otherwise only the retries
+export function digestItemsToSend(digest: DigestConfig, waiting: DigestItem[], now: number, everything = false): DigestItem[] {
+  return everything || regularDigestDueAt(digest, waiting) <= now ? waiting : waiting.filter((i) => i.pendingRecipients);
+}
+
+// Recipients (lower case) a message is owed to
+export function digestOwedTo(item: DigestItem, recipients: string[]): string[] {
+  return item.pendingRecipients ?? recipients.map((address) => address.trim().toLowerCase());
+}
+
+// One digest per recipient with the messages that recipient is owed, in batch order
+export function planDigest(items: DigestItem[], recipients: string[]): { email: string; items: DigestItem[] }[] {
+  return recipients
+    .map((address) => address.trim())
+    .map((email) => ({ email, items: items.filter((item) => digestOwedTo(item, recipients).includes(email.toLowerCase())) }))
+    .filter((s) => s.items.length);
+}
+
+// After a send, each message stays for the recipients it was owed to and did not reach
+export function digestLeftovers(items: DigestItem[], recipients: string[], failed: string[]): { item: DigestItem; owed: string[]; missed: string[] }[] {
+  const failedTo = new Set(failed.map((email) => email.trim().toLowerCase()));
+  return items.map((item) => {
+    const owed = digestOwedTo(item, recipients);
+    return { item, owed, missed: owed.filter((email) => failedTo.has(email)) };
+  });
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function received(item: DigestItem): string {
+  return item.receivedAt.slice(0, 16).replace("T", " ");
+}
+
+// Summary table in the body, each original attached as message/rfc822 in batch order
+export function buildDigestMessage(items: { item: DigestItem; raw: Buffer }[], opts: DigestOptions): SendMailOptions {
+  const rows = items.map(({ item }, i) => [String(i + 1), received(item), item.sender, item.subject, String(item.attachmentCount)]);
+  const intro = `${items.length} message${items.length === 1 ? "" : "s"} matched rule ${opts.rule}. Times are UTC; the originals are attached.`;
+  const text = [intro, "", ...rows.map((r) => `${r[0]}. ${r[1]}  ${r[2]}\n   ${r[3]}${r[4] !== "0" ? ` (${r[4]} attachment${r[4] === "1" ? "" : "s"})` : ""}`)].join("\n");
+  const cell = "padding:4px 8px;border-bottom:1px solid #e5e7eb;text-align:left;vertical-align:top;";
+  const html = `<p style="font-size:14px;color:#374151;">${escapeHtml(intro)}</p>
+<table cellpadding="0" cellspacing="0" style="font-size:13px;border-collapse:collapse;">
+<tr>${["#", "Received", "From", "Subject", "Attachments"].map((h) => `<th style="${cell}color:#6b7280;">${h}</th>`).join("")}</tr>
+${rows.map((r) => `<tr>${r.map((v) => `<td style="${cell}">${escapeHtml(v)}</td>`).join("")}</tr>`).join("\n")}
+</table>`;
+
+  return {
+    from: opts.from,
+    to: opts.to,
+    replyTo: opts.replyTo,
+    subject: opts.subject,
+    headers: (opts.headers || []).map(([key, value]) => ({ key, value })),
+    text,
+    html,
+    attachments: items.map(({ item, raw }, i) => ({
+      filename: `${String(i + 1).padStart(2, "0")}-${(item.subject || "message").replace(/[\\/:*?"<>|\r\n]+/g, "_").slice(0, 80)}.eml`,
+      content: raw,
+      contentType: "message/rfc822",
+    })),
+  };
+}
@@ -0,0 +1,265 @@
+// Forwarded message builder - inline, as attachment, or redirect
+
+import { ParsedMail, AddressObject, Attachment } from "mailparser";
+import { SendMailOptions } from "nodemailer";
+import { AppliedAttachmentPolicy } from "./attachment-policy";
+
+// inline: body quoted under the original headers
+// attachment: the original attached as message/rfc822
+// redirect: the raw original re-sent with Resent-* headers
+export type ForwardMode = "inline" | "attachment" | "redirect";
+
+export const FORWARD_MODES: ForwardMode[] = ["inline", "attachment", "redirect"];
+
+// Per-rule templates; headers/footers wrap the body in inline and attachment modes
+export interface ForwardTemplate {
+  subject?: string;
+  textHeader?: string;
+  textFooter?: string;
+  htmlHeader?: string;
+  htmlFooter?: string;
+}
+
+export interface TemplateVars {
+  prefix: string;
+  subject: string;
+  originalSubject: string;
+  senderName: string;
+  senderAddress: string;
+  date: string;
+  rule: string;
+  attachmentCount: string;
+}
+
+export interface ForwardOptions {
+  mode: ForwardMode;
+  from: string;
+  to: string;
+  // Replaces the original sender as Reply-To (redirect: only when the original has none)
+  replyTo?: string;
+  subject: string;
+  template?: ForwardTemplate;
+  vars?: TemplateVars;
+  // Extra header lines (loop markers, Auto-Submitted)
+  headers?: [string, string][];
+  // Attachments left by the rule's attachment policy (inline mode only), and
+  // what it removed or replaced with links
+  attachments?: Attachment[];
+  attachmentNotes?: Pick<AppliedAttachmentPolicy, "removed" | "linked">;
+}
+
+const TEMPLATE_FIELDS: (keyof ForwardTemplate)[] = ["subject", "textHeader", "textFooter", "htmlHeader", "htmlFooter"];
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Values for {{placeholders}}; {{subject}} is the original subject with the rule's tag removed
+export function templateVars(mail: ParsedMail, rule: { label: string; tag?: string }, prefix?: string): TemplateVars {
+  const original = mail.subject || "";
+  const stripped = rule.tag ? original.replace(new RegExp(escapeRegExp(rule.tag), "gi"), "") : original;
+  const d = mail.date || new Date();
+  return {
+    prefix: prefix || "",
+    subject: stripped.replace(/\s+/g, " ").trim(),
+    originalSubject: original,
+    senderName: mail.from?.value?.[0]?.name || mail.from?.value?.[0]?.address || "",
+    senderAddress: mail.from?.value?.[0]?.address || "",
+    date: `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`,
+    rule: rule.label,
+    attachmentCount: String(mail.attachments?.length || 0),
+  };
+}
+
+export function renderTemplate(template: string, vars: TemplateVars, html = false): string {
+  return template.replace(PLACEHOLDER, (whole, name: string) => {
+    if (!(name in vars)) return whole;
+    const value = vars[name as keyof TemplateVars];
+    return html ? escapeHtml(value) : value;
+  });
+}
+
+// Without a template the original subject is kept; forwardPrefix is prepended
+// unless the template places it itself with {{prefix}}
+export function forwardSubject(template: string | undefined, vars: TemplateVars): string {
+  const body = template ? renderTemplate(template, vars) : vars.originalSubject;
+  const withPrefix = vars.prefix && !template?.match(/\{\{\s*prefix\s*\}\}/) ? `${vars.prefix} ${body}` : body;
+  return withPrefix.replace(/\s+/g, " ").trim();
+}
+
+// Reject unknown fields and placeholders; throws with the offending config path
+export function validateTemplate(template: unknown, path: string): void {
+  if (template === undefined) return;
+  if (!template || typeof template !== "object" || Array.isArray(template)) throw new Error(`${path}: must be an object`);
+  const known = Object.keys(templateVars({ attachments: [] } as unknown as ParsedMail, { label: "" }));
+  for (const [field, value] of Object.entries(template)) {
+    if (!TEMPLATE_FIELDS.includes(field as keyof ForwardTemplate)) {
+      throw new Error(`${path}.${field}: unknown template field (expected ${TEMPLATE_FIELDS.join(", ")})`);
+    }
+    if (typeof value !== "string") throw new Error(`${path}.${field}: must be a string`);
+    for (const [, name] of value.matchAll(PLACEHOLDER)) {
+      if (!known.includes(name)) throw new Error(`${path}.${field}: unknown placeholder {{${name}}} (expected ${known.join(", ")})`);
+    }
+  }
+}
+
+function addressText(field: AddressObject | AddressObject[] | undefined): string {
+  if (!field) return "";
+  return (Array.isArray(field) ? field : [field]).map((f) => f.text).join(", ");
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Original From/Date/Subject/To/Cc, in display order, skipping empty ones
+function originalHeaders(mail: ParsedMail): [string, string][] {
+  const headers: [string, string][] = [
+    ["From", mail.from?.text || ""],
+    ["Date", mail.date ? mail.date.toUTCString() : ""],
+    ["Subject", mail.subject || ""],
+    ["To", addressText(mail.to)],
+    ["Cc", addressText(mail.cc)],
+    ["Reply-To", mail.replyTo?.text || ""],
+  ];
+  return headers.filter(([, v]) => v);
+}
+
+// Where replies from the recipient should go: the original Reply-To, else the original sender
+function replyAddress(mail: ParsedMail): string | undefined {
+  return mail.replyTo?.text || mail.from?.text || undefined;
+}
+
+function forwardedText(mail: ParsedMail): string {
+  const header = originalHeaders(mail).map(([k, v]) => `${k}: ${v}`);
+  return ["---------- Forwarded message ----------", ...header, ""].join("\n");
+}
+
+function forwardedHtml(mail: ParsedMail): string {
+  const rows = originalHeaders(mail)
+    .map(([k, v]) => `<tr><td style="padding:2px 8px 2px 0;color:#6b7280;vertical-align:top;">${k}:</td><td style="padding:2px 0;">${escapeHtml(v)}</td></tr>`)
+    .join("");
+  return `<div style="font-size:13px;color:#374151;border-bottom:1px solid #e5e7eb;padding-bottom:8px;margin-bottom:12px;">
+<div style="font-weight:bold;margin-bottom:4px;">---------- Forwarded message ----------</div>
+<table cellpadding="0" cellspacing="0" style="font-size:13px;">${rows}</table>
+</div>`;
+}
+
+function megabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Notice listing attachments the policy removed or replaced with download links
+function attachmentNoticeText(opts: ForwardOptions): string {
+  const notes = opts.attachmentNotes;
+  if (!notes || (!notes.removed.length && !notes.linked.length)) return "";
+  const lines = [
+    ...notes.removed.map((r) => `- ${r.filename} (removed: ${r.reason})`),
+    ...notes.linked.map((l) => `- ${l.filename} (${megabytes(l.size)}): ${l.url} (expires ${l.expiresAt.slice(0, 16).replace("T", " ")} UTC)`),
+  ];
+  return `\n\n---------- Attachments ----------\n${lines.join("\n")}`;
+}
+
+function attachmentNoticeHtml(opts: ForwardOptions): string {
+  const notes = opts.attachmentNotes;
+  if (!notes || (!notes.removed.length && !notes.linked.length)) return "";
+  const items = [
+    ...notes.removed.map((r) => `<li>${escapeHtml(r.filename)} <span style="color:#6b7280;">(removed: ${escapeHtml(r.reason)})</span></li>`),
+    ...notes.linked.map(
+      (l) =>
+        `<li><a href="${escapeHtml(l.url)}">${escapeHtml(l.filename)}</a> <span style="color:#6b7280;">(${megabytes(l.size)}, link expires ${escapeHtml(l.expiresAt.slice(0, 16).replace("T", " "))} UTC)</span></li>`
+    ),
+  ];
+  return `<div style="font-size:13px;color:#374151;border-top:1px solid #e5e7eb;margin-top:16px;padding-top:8px;"><div style="font-weight:bold;">Attachments</div><ul style="margin:4px 0;padding-left:20px;">${items.join("")}</ul></div>`;
+}
+
+// Surround a body with the template's header and footer
+function wrapText(body: string, opts: ForwardOptions): string {
+  const { template, vars } = opts;
+  if (!template || !vars) return body;
+  const header = template.textHeader ? `${renderTemplate(template.textHeader, vars)}\n\n` : "";
+  const footer = template.textFooter ? `\n\n${renderTemplate(template.textFooter, vars)}` : "";
+  return header + body + footer;
+}
+
+function wrapHtml(body: string, opts: ForwardOptions): string {
+  const { template, vars } = opts;
+  if (!template || !vars) return body;
+  const header = template.htmlHeader ? `<div>${renderTemplate(template.htmlHeader, vars, true)}</div>` : "";
+  const footer = template.htmlFooter ? `<div style="margin-top:16px;">${renderTemplate(template.htmlFooter, vars, true)}</div>` : "";
+  return header + body + footer;
+}
+
+function extraHeaders(opts: ForwardOptions): SendMailOptions["headers"] {
+  return (opts.headers || []).map(([key, value]) => ({ key, value }));
+}
+
+function buildInline(mail: ParsedMail, opts: ForwardOptions): SendMailOptions {
+  const body = typeof mail.html === "string" && mail.html ? mail.html : `<pre style="white-space:pre-wrap;">${escapeHtml(mail.text || "")}</pre>`;
+  return {
+    from: opts.from,
+    to: opts.to,
+    replyTo: opts.replyTo ?? replyAddress(mail),
+    subject: opts.subject,
+    headers: extraHeaders(opts),
+    text: wrapText(`${forwardedText(mail)}\n${mail.text || ""}${attachmentNoticeText(opts)}`, opts),
+    html: wrapHtml(
+      `${forwardedHtml(mail)}<blockquote style="margin:0;padding-left:12px;border-left:3px solid #e5e7eb;">${body}</blockquote>${attachmentNoticeHtml(opts)}`,
+      opts
+    ),
+    // Inline images keep their Content-ID so cid: references still resolve
+    attachments: (opts.attachments ?? mail.attachments)?.map((a) => ({
+      filename: a.filename,
+      content: a.content,
+      contentType: a.contentType,
+      cid: a.cid,
+      contentDisposition: a.contentDisposition === "inline" ? "inline" : "attachment",
+    })),
+  };
+}
+
+function buildAttachment(mail: ParsedMail, raw: Buffer, opts: ForwardOptions): SendMailOptions {
+  const name = (mail.subject || "message").replace(/[\\/:*?"<>|\r\n]+/g, "_").slice(0, 100);
+  return {
+    from: opts.from,
+    to: opts.to,
+    replyTo: opts.replyTo ?? replyAddress(mail),
+    subject: opts.subject,
+    headers: extraHeaders(opts),
+    text: wrapText(`${forwardedText(mail)}\nThe original message is attached.`, opts),
+    html: wrapHtml(`${forwardedHtml(mail)}<p style="font-size:13px;color:#6b7280;">The original message is attached.</p>`, opts),
+    attachments: [{ filename: `${name}.eml`, content: raw, contentType: "message/rfc822" }],
+  };
+}
+
+function buildRedirect(mail: ParsedMail, raw: Buffer, opts: ForwardOptions): SendMailOptions {
+  const source = raw.toString("binary");
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+  const fromAddress = opts.from.replace(/^.*<([^>]+)>.*$/, "$1").trim();
+  const domain = fromAddress.split("@")[1] || "localhost";
+  const resent = [
+    `Resent-From: ${opts.from}`,
+    `Resent-To: ${opts.to}`,
+    `Resent-Date: ${new Date().toUTCString()}`,
+    `Resent-Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${domain}>`,
+    ...(opts.headers || []).map(([key, value]) => `${key}: ${value}`),
+  ];
+  const sender = mail.from?.value?.[0]?.address;
+  if (!mail.replyTo && opts.replyTo) resent.push(`Reply-To: ${opts.replyTo}`);
+  else if (!mail.replyTo && sender) resent.push(`Reply-To: <${sender}>`);
+  return {
+    envelope: { from: fromAddress, to: opts.to },
+    raw: Buffer.from(resent.join(eol) + eol + source, "binary"),
+  };
+}
+
+export function buildForwardMessage(mail: ParsedMail, raw: Buffer, opts: ForwardOptions): SendMailOptions {
+  if (opts.mode === "redirect") return buildRedirect(mail, raw, opts);
+  if (opts.mode === "attachment") return buildAttachment(mail, raw, opts);
+  return buildInline(mail, opts);
+}
@@ -0,0 +1,134 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ForwardTask,
+  QueuedDelivery,
+  closeHistory,
+  dueDeliveries,
+  enqueueDeliveries,
+  getTask,
+  giveUpDeliveries,
+  openHistory,
+  queuedDeliveries,
+  queuedMessageRaw,
+  recordDeliveryAttempt,
+  retryDeliveriesNow,
+  saveTask,
+  settleQueuedTask,
+  updateTaskStatus,
+} from "./history";
+
+const dir = mkdtempSync(join(tmpdir(), "mx-history-"));
+let file = "";
+let dbCount = 0;
+
+beforeEach(() => {
+  closeHistory();
+  file = join(dir, `${++dbCount}.db`);
+  openHistory(file);
+});
+
+afterAll(() => {
+  closeHistory();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// A task whose recipients all failed their first sends and were queued
+function queuedTask(id: number, recipients: string[]): ForwardTask {
+  const task: ForwardTask = {
+    id,
+    timestamp: new Date().toISOString(),
+    subject: `task ${id}`,
+    from: "alice@example.com",
+    matchedTags: ["rule"],
+    recipients,
+    status: "pending",
+    results: recipients.map((email) => ({ email, success: false, attempts: 3, rule: "rule", error: "421 try later", pending: true })),
+  };
+  updateTaskStatus(task);
+  saveTask(task);
+  const entries = recipients.map(
+    (recipient): QueuedDelivery => ({ taskId: id, recipient, rule: "rule", attempts: 0, lastError: "421 try later", nextAttemptAt: 1000, deadline: 10000 })
+  );
+  enqueueDeliveries(id, Buffer.from(`raw ${id}`), entries);
+  return task;
+}
+
+describe("retry queue", () => {
+  test("entries and the message survive a restart", () => {
+    queuedTask(1, ["a@example.org", "b@example.org"]);
+    closeHistory();
+    openHistory(file);
+    expect(queuedDeliveries(1).map((q) => q.recipient)).toEqual(["a@example.org", "b@example.org"]);
+    expect(queuedMessageRaw(1)?.toString()).toBe("raw 1");
+  });
+
+  test("only entries whose attempt is due are returned", () => {
+    queuedTask(1, ["a@example.org"]);
+    expect(dueDeliveries(999)).toEqual([]);
+    expect(dueDeliveries(1000).map((q) => q.recipient)).toEqual(["a@example.org"]);
+    queuedTask(2, ["b@example.org"]);
+    expect(retryDeliveriesNow(2)).toBe(1);
+    expect(dueDeliveries(0).map((q) => q.taskId)).toEqual([2]);
+    expect(retryDeliveriesNow(3)).toBe(0);
+  });
+
+  test("a failed attempt reschedules the entry and records the error on the task", () => {
+    queuedTask(1, ["a@example.org"]);
+    const [entry] = queuedDeliveries(1);
+    expect(recordDeliveryAttempt({ ...entry, attempts: 1, lastError: "450 busy", nextAttemptAt: 5000 }, { delivered: false, settled: false })).toBe(true);
+    expect(queuedDeliveries(1)).toMatchObject([{ attempts: 1, lastError: "450 busy", nextAttemptAt: 5000 }]);
+    const task = getTask(1)!;
+    expect(task.status).toBe("pending");
+    expect(task.results![0]).toMatchObject({ attempts: 4, error: "450 busy", pending: true, success: false });
+  });
+
+  test("the task settles once its last queued recipient is delivered", () => {
+    queuedTask(1, ["a@example.org", "b@example.org"]);
+    const [a, b] = queuedDeliveries(1);
+    recordDeliveryAttempt({ ...a, attempts: 1 }, { delivered: true, transport: "main", settled: true });
+    expect(settleQueuedTask(1)).toBeNull();
+    expect(getTask(1)!.status).toBe("pending");
+
+    recordDeliveryAttempt({ ...b, attempts: 1 }, { delivered: true, transport: "backup", settled: true });
+    const settled = settleQueuedTask(1)!;
+    expect(settled.raw?.toString()).toBe("raw 1");
+    expect(settled.task!.status).toBe("success");
+    expect(settled.task!.results!.map((r) => [r.email, r.success, r.transport, r.pending])).toEqual([
+      ["a@example.org", true, "main", undefined],
+      ["b@example.org", true, "backup", undefined],
+    ]);
+    expect(queuedMessageRaw(1)).toBeUndefined();
+  });
+
+  test("a recipient given up after a failed attempt fails the task", () => {
+    queuedTask(1, ["a@example.org"]);
+    const [entry] = queuedDeliveries(1);
+    recordDeliveryAttempt({ ...entry, attempts: 5, lastError: "550 no such user" }, { delivered: false, settled: true });
+    expect(queuedDeliveries(1)).toEqual([]);
+    expect(settleQueuedTask(1)!.task).toMatchObject({ status: "failed", error: "1/1 failed" });
+  });
+
+  test("giving up drops only that task's entries", () => {
+    queuedTask(1, ["a@example.org", "b@example.org"]);
+    queuedTask(2, ["c@example.org"]);
+    expect(giveUpDeliveries(1, "Given up manually").map((q) => q.recipient)).toEqual(["a@example.org", "b@example.org"]);
+    expect(queuedDeliveries().map((q) => [q.taskId, q.recipient])).toEqual([[2, "c@example.org"]]);
+    const task = getTask(1)!;
+    expect(task.status).toBe("failed");
+    expect(task.results!.map((r) => r.error)).toEqual(["Given up manually - 421 try later", "Given up manually - 421 try later"]);
+    expect(settleQueuedTask(1)!.raw?.toString()).toBe("raw 1");
+    expect(queuedMessageRaw(2)?.toString()).toBe("raw 2");
+    expect(giveUpDeliveries(1, "Given up manually")).toEqual([]);
+  });
+
+  test("an attempt that finishes after its entry was given up changes nothing", () => {
+    queuedTask(1, ["a@example.org"]);
+    const [entry] = queuedDeliveries(1);
+    giveUpDeliveries(1, "Given up manually");
+    expect(recordDeliveryAttempt({ ...entry, attempts: 1 }, { delivered: true, transport: "main", settled: true })).toBe(false);
+    expect(getTask(1)!.results![0]).toMatchObject({ success: false, error: "Given up manually - 421 try later" });
+  });
+});
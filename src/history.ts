@@ -0,0 +1,882 @@
+// Task history and dedup store - SQLite database in DATA_DIR
+
+import { Database } from "bun:sqlite";
+import { existsSync, readFileSync, renameSync } from "fs";
+import { RecipientResult } from "./reply-template";
+import { WebhookDelivery } from "./webhooks";
+import { AppliedAttachmentPolicy } from "./attachment-policy";
+import { DigestItem } from "./digest";
+
+// rejected: refused by a sender policy before forwarding; suppressed: dropped as a
+// mail loop or over a rate limit. error holds the reason for both.
+export type TaskStatus = "success" | "failed" | "pending" | "rejected" | "suppressed";
+
+export interface TaskAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ForwardTask {
+  id: number;
+  timestamp: string;
+  subject: string;
+  from: string;
+  matchedTags: string[];
+  recipients: string[];
+  account?: string;
+  folder?: string;
+  status: TaskStatus;
+  error?: string;
+  results?: RecipientResult[];
+  duration?: number;
+  messageId?: string;
+  // Size of the raw message in bytes
+  size?: number;
+  attachments?: TaskAttachment[];
+  // One entry per matched rule that has an attachment policy
+  attachmentPolicy?: AppliedAttachmentPolicy[];
+}
+
+// A failed recipient delivery waiting in the retry queue
+export interface QueuedDelivery {
+  taskId: number;
+  recipient: string;
+  // Label of the rule the recipient came from
+  rule?: string;
+  attempts: number;
+  lastError: string;
+  nextAttemptAt: number;
+  deadline: number;
+}
+
+// Outcome of one queued attempt; a settled recipient (delivered or given up) leaves the queue
+export interface DeliveryAttempt {
+  delivered: boolean;
+  transport?: string;
+  settled: boolean;
+}
+
+// Filters for /api/tasks; all optional and combined with AND
+export interface TaskQuery {
+  // ISO timestamps; `until` is exclusive
+  since?: string;
+  until?: string;
+  status?: TaskStatus;
+  tag?: string;
+  // Substring of the sender
+  sender?: string;
+  // Substring of subject, sender, recipients, tags or message-id
+  text?: string;
+  // Return tasks with an id below this one (newest first)
+  cursor?: number;
+  limit?: number;
+}
+
+// A stored attachment served at /files/<token> until it expires
+export interface AttachmentLink {
+  token: string;
+  taskId: number;
+  filename: string;
+  contentType: string;
+  size: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// A message over a rate limit, kept with its raw source until it can be forwarded
+export interface HeldMessage {
+  id: number;
+  account: string;
+  folder: string;
+  sender: string;
+  subject: string;
+  messageId: string | null;
+  size: number;
+  reason: string;
+  heldAt: string;
+}
+
+// A received message kept with its raw source so it can be replayed against the current rules
+export interface SavedMessage {
+  messageId: string;
+  account: string;
+  folder: string;
+  sender: string;
+  subject: string;
+  size: number;
+  receivedAt: string;
+}
+
+export interface TaskPage {
+  tasks: ForwardTask[];
+  nextCursor: number | null;
+  stats: Record<"total" | TaskStatus, number>;
+}
+
+interface TaskRow {
+  id: number;
+  timestamp: string;
+  subject: string;
+  sender: string;
+  tags: string;
+  recipients: string;
+  account: string | null;
+  folder: string | null;
+  status: TaskStatus;
+  error: string | null;
+  duration: number | null;
+  message_id: string | null;
+  size: number | null;
+  attachments: string | null;
+  attachment_policy: string | null;
+}
+
+interface DeliveryRow {
+  id: string;
+  webhook: string;
+  event: WebhookDelivery["event"];
+  task_id: number | null;
+  payload: string;
+  status: WebhookDelivery["status"];
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface HeldRow {
+  id: number;
+  account: string;
+  folder: string;
+  sender: string;
+  subject: string;
+  message_id: string | null;
+  size: number;
+  reason: string;
+  held_at: string;
+}
+
+interface SavedRow {
+  message_id: string;
+  account: string;
+  folder: string;
+  sender: string;
+  subject: string;
+  size: number;
+  received_at: string;
+}
+
+interface LinkRow {
+  token: string;
+  task_id: number;
+  filename: string;
+  content_type: string;
+  size: number;
+  created_at: string;
+  expires_at: string;
+}
+
+interface ResultRow {
+  task_id: number;
+  email: string;
+  success: number;
+  error: string | null;
+  attempts: number | null;
+  rule: string | null;
+  pending: number;
+  transport: string | null;
+  digest: number | null;
+}
+
+interface QueueRow {
+  task_id: number;
+  recipient: string;
+  rule: string | null;
+  attempts: number;
+  last_error: string;
+  next_attempt_at: number;
+  deadline: number;
+}
+
+interface DigestRow {
+  id: number;
+  rule: string;
+  task_id: number;
+  message_id: string | null;
+  sender: string;
+  subject: string;
+  size: number;
+  attachment_count: number;
+  received_at: string;
+  pending_recipients: string | null;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS tasks (
+  id INTEGER PRIMARY KEY,
+  timestamp TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  tags TEXT NOT NULL,
+  recipients TEXT NOT NULL,
+  account TEXT,
+  folder TEXT,
+  status TEXT NOT NULL,
+  error TEXT,
+  duration INTEGER,
+  message_id TEXT,
+  size INTEGER,
+  attachments TEXT,
+  attachment_policy TEXT
+);
+CREATE INDEX IF NOT EXISTS tasks_timestamp ON tasks (timestamp);
+CREATE INDEX IF NOT EXISTS tasks_status ON tasks (status);
+CREATE TABLE IF NOT EXISTS task_results (
+  task_id INTEGER NOT NULL REFERENCES tasks (id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  email TEXT NOT NULL,
+  success INTEGER NOT NULL,
+  error TEXT,
+  attempts INTEGER,
+  rule TEXT,
+  pending INTEGER NOT NULL DEFAULT 0,
+  transport TEXT,
+  digest INTEGER,
+  PRIMARY KEY (task_id, position)
+);
+CREATE TABLE IF NOT EXISTS forwarded (
+  message_id TEXT PRIMARY KEY,
+  subject TEXT,
+  processed_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS forwarded_processed_at ON forwarded (processed_at);
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook TEXT NOT NULL,
+  event TEXT NOT NULL,
+  task_id INTEGER,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL,
+  response_status INTEGER,
+  error TEXT,
+  next_attempt_at INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_created_at ON webhook_deliveries (created_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_status ON webhook_deliveries (status);
+CREATE TABLE IF NOT EXISTS held_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account TEXT NOT NULL,
+  folder TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  message_id TEXT,
+  size INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  held_at TEXT NOT NULL,
+  raw BLOB NOT NULL
+);
+CREATE TABLE IF NOT EXISTS attachment_links (
+  token TEXT PRIMARY KEY,
+  task_id INTEGER NOT NULL,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS attachment_links_expires_at ON attachment_links (expires_at);
+CREATE TABLE IF NOT EXISTS saved_messages (
+  message_id TEXT PRIMARY KEY,
+  account TEXT NOT NULL,
+  folder TEXT NOT NULL,
+  sender TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  received_at TEXT NOT NULL,
+  raw BLOB NOT NULL
+);
+CREATE INDEX IF NOT EXISTS saved_messages_received_at ON saved_messages (received_at);
+CREATE TABLE IF NOT EXISTS queued_messages (
+  task_id INTEGER PRIMARY KEY,
+  raw BLOB NOT NULL
+);
+CREATE TABLE IF NOT EXISTS delivery_queue (
+  task_id INTEGER NOT NULL,
+  recipient TEXT NOT NULL,
+  rule TEXT,
+  attempts INTEGER NOT NULL,
+  last_error TEXT NOT NULL,
+  next_attempt_at INTEGER NOT NULL,
+  deadline INTEGER NOT NULL,
+  PRIMARY KEY (task_id, recipient)
+);
+CREATE INDEX IF NOT EXISTS delivery_queue_next_attempt_at ON delivery_queue (next_attempt_at);
+CREATE TABLE IF NOT EXISTS digest_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  rule TEXT NOT NULL,
+  task_id INTEGER NOT NULL,
+  message_id TEXT,
+  sender TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  attachment_count INTEGER NOT NULL,
+  received_at TEXT NOT NULL,
+  pending_recipients TEXT,
+  raw BLOB NOT NULL
+);
+`;
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+let db: Database;
+
+export function openHistory(file: string): void {
+  db = new Database(file, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA foreign_keys = ON");
+  db.exec(SCHEMA);
+}
+
+export function closeHistory(): void {
+  db?.close();
+}
+
+function toTask(row: TaskRow, results: RecipientResult[]): ForwardTask {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    subject: row.subject,
+    from: row.sender,
+    matchedTags: JSON.parse(row.tags),
+    recipients: JSON.parse(row.recipients),
+    account: row.account ?? undefined,
+    folder: row.folder ?? undefined,
+    status: row.status,
+    error: row.error ?? undefined,
+    results,
+    duration: row.duration ?? undefined,
+    messageId: row.message_id ?? undefined,
+    size: row.size ?? undefined,
+    attachments: row.attachments ? JSON.parse(row.attachments) : undefined,
+    attachmentPolicy: row.attachment_policy ? JSON.parse(row.attachment_policy) : undefined,
+  };
+}
+
+function toResult(row: ResultRow): RecipientResult {
+  return {
+    email: row.email,
+    success: !!row.success,
+    error: row.error ?? undefined,
+    attempts: row.attempts ?? undefined,
+    rule: row.rule ?? undefined,
+    pending: row.pending ? true : undefined,
+    transport: row.transport ?? undefined,
+    digest: row.digest ? true : undefined,
+  };
+}
+
+function writeTask(task: ForwardTask): void {
+  db.query(
+    `INSERT OR REPLACE INTO tasks (id, timestamp, subject, sender, tags, recipients, account, folder, status, error, duration, message_id, size, attachments, attachment_policy)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    task.id,
+    task.timestamp,
+    task.subject,
+    task.from,
+    JSON.stringify(task.matchedTags),
+    JSON.stringify(task.recipients),
+    task.account ?? null,
+    task.folder ?? null,
+    task.status,
+    task.error ?? null,
+    task.duration ?? null,
+    task.messageId ?? null,
+    task.size ?? null,
+    task.attachments ? JSON.stringify(task.attachments) : null,
+    task.attachmentPolicy ? JSON.stringify(task.attachmentPolicy) : null
+  );
+  db.query("DELETE FROM task_results WHERE task_id = ?").run(task.id);
+  const insert = db.query(
+    "INSERT INTO task_results (task_id, position, email, success, error, attempts, rule, pending, transport, digest) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  );
+  (task.results || []).forEach((r, i) =>
+    insert.run(task.id, i, r.email, r.success ? 1 : 0, r.error ?? null, r.attempts ?? null, r.rule ?? null, r.pending ? 1 : 0, r.transport ?? null, r.digest ? 1 : null)
+  );
+}
+
+// Recompute task status from its per-recipient results
+export function updateTaskStatus(task: ForwardTask): void {
+  const results = task.results || [];
+  const pending = results.filter((r) => r.pending && !r.digest).length;
+  const waiting = results.filter((r) => r.pending && r.digest).length;
+  const failed = results.filter((r) => !r.success && !r.pending).length;
+  task.status = pending + waiting > 0 ? "pending" : failed > 0 ? "failed" : "success";
+  const parts: string[] = [];
+  if (failed > 0) parts.push(`${failed}/${results.length} failed`);
+  if (pending > 0) parts.push(`${pending}/${results.length} queued for retry`);
+  if (waiting > 0) parts.push(`${waiting}/${results.length} waiting for digest`);
+  task.error = parts.length ? parts.join(", ") : undefined;
+}
+
+// Insert or update a task together with its per-recipient results
+export function saveTask(task: ForwardTask): void {
+  db.transaction(() => writeTask(task))();
+}
+
+export function getTask(id: number): ForwardTask | undefined {
+  const row = db.query("SELECT * FROM tasks WHERE id = ?").get(id) as TaskRow | null;
+  if (!row) return undefined;
+  const results = db.query("SELECT * FROM task_results WHERE task_id = ? ORDER BY position").all(id) as ResultRow[];
+  return toTask(row, results.map(toResult));
+}
+
+export function maxTaskId(): number {
+  return (db.query("SELECT MAX(id) AS id FROM tasks").get() as { id: number | null }).id ?? 0;
+}
+
+export function taskCount(): number {
+  return (db.query("SELECT COUNT(*) AS n FROM tasks").get() as { n: number }).n;
+}
+
+function likePattern(s: string): string {
+  return `%${s.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+// WHERE clause for everything except the cursor, so stats cover the whole filtered set
+function whereClause(q: TaskQuery): { sql: string; params: (string | number)[] } {
+  const conds: string[] = [];
+  const params: (string | number)[] = [];
+  const add = (sql: string, ...values: (string | number)[]) => {
+    conds.push(sql);
+    params.push(...values);
+  };
+  const like = "LIKE ? ESCAPE '\\'";
+  if (q.since) add("timestamp >= ?", q.since);
+  if (q.until) add("timestamp < ?", q.until);
+  if (q.status) add("status = ?", q.status);
+  if (q.tag) add("EXISTS (SELECT 1 FROM json_each(tasks.tags) WHERE lower(value) = lower(?))", q.tag);
+  if (q.sender) add(`sender ${like}`, likePattern(q.sender));
+  if (q.text) {
+    const p = likePattern(q.text);
+    add(`(subject ${like} OR sender ${like} OR recipients ${like} OR tags ${like} OR message_id ${like})`, p, p, p, p, p);
+  }
+  return { sql: conds.length ? `WHERE ${conds.join(" AND ")}` : "", params };
+}
+
+// Newest tasks first; nextCursor is null on the last page
+export function queryTasks(q: TaskQuery): TaskPage {
+  const limit = Math.min(Math.max(q.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const where = whereClause(q);
+
+  const stats = { total: 0, success: 0, failed: 0, pending: 0, rejected: 0, suppressed: 0 };
+  const counts = db.query(`SELECT status, COUNT(*) AS n FROM tasks ${where.sql} GROUP BY status`).all(...where.params) as { status: TaskStatus; n: number }[];
+  for (const c of counts) {
+    stats[c.status] = c.n;
+    stats.total += c.n;
+  }
+
+  const pageSql = q.cursor ? `${where.sql ? `${where.sql} AND` : "WHERE"} id < ?` : where.sql;
+  const pageParams = q.cursor ? [...where.params, q.cursor] : where.params;
+  const rows = db.query(`SELECT * FROM tasks ${pageSql} ORDER BY id DESC LIMIT ?`).all(...pageParams, limit + 1) as TaskRow[];
+  const page = rows.slice(0, limit);
+
+  const results = new Map<number, RecipientResult[]>();
+  if (page.length) {
+    const ids = page.map((r) => r.id);
+    const resultRows = db
+      .query(`SELECT * FROM task_results WHERE task_id IN (${ids.map(() => "?").join(",")}) ORDER BY task_id, position`)
+      .all(...ids) as ResultRow[];
+    for (const r of resultRows) {
+      if (!results.has(r.task_id)) results.set(r.task_id, []);
+      results.get(r.task_id)!.push(toResult(r));
+    }
+  }
+
+  return {
+    tasks: page.map((r) => toTask(r, results.get(r.id) || [])),
+    nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+    stats,
+  };
+}
+
+export function isForwarded(messageId: string): boolean {
+  return !!db.query("SELECT 1 FROM forwarded WHERE message_id = ?").get(messageId);
+}
+
+export function recordForwarded(messageId: string, subject: string): void {
+  db.query("INSERT OR IGNORE INTO forwarded (message_id, subject, processed_at) VALUES (?, ?, ?)").run(messageId, subject, new Date().toISOString());
+}
+
+export function forwardedCount(): number {
+  return (db.query("SELECT COUNT(*) AS n FROM forwarded").get() as { n: number }).n;
+}
+
+function toDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhook: row.webhook,
+    event: row.event,
+    taskId: row.task_id,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    error: row.error,
+    nextAttemptAt: row.next_attempt_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function saveWebhookDelivery(d: WebhookDelivery): void {
+  db.query(
+    `INSERT OR REPLACE INTO webhook_deliveries
+     (id, webhook, event, task_id, payload, status, attempts, response_status, error, next_attempt_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(d.id, d.webhook, d.event, d.taskId, d.payload, d.status, d.attempts, d.responseStatus, d.error, d.nextAttemptAt, d.createdAt, d.updatedAt);
+}
+
+export function getWebhookDelivery(id: string): WebhookDelivery | undefined {
+  const row = db.query("SELECT * FROM webhook_deliveries WHERE id = ?").get(id) as DeliveryRow | null;
+  return row ? toDelivery(row) : undefined;
+}
+
+// Pending deliveries whose next attempt is due
+export function dueWebhookDeliveries(now: number): WebhookDelivery[] {
+  return (db.query("SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY created_at").all(now) as DeliveryRow[]).map(toDelivery);
+}
+
+export function recentWebhookDeliveries(limit: number): WebhookDelivery[] {
+  return (db.query("SELECT * FROM webhook_deliveries ORDER BY created_at DESC LIMIT ?").all(limit) as DeliveryRow[]).map(toDelivery);
+}
+
+function toHeld(row: HeldRow): HeldMessage {
+  return {
+    id: row.id,
+    account: row.account,
+    folder: row.folder,
+    sender: row.sender,
+    subject: row.subject,
+    messageId: row.message_id,
+    size: row.size,
+    reason: row.reason,
+    heldAt: row.held_at,
+  };
+}
+
+export function holdMessage(msg: Omit<HeldMessage, "id" | "size">, raw: Buffer): HeldMessage {
+  const { lastInsertRowid } = db
+    .query("INSERT INTO held_messages (account, folder, sender, subject, message_id, size, reason, held_at, raw) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)")
+    .run(msg.account, msg.folder, msg.sender, msg.subject, msg.messageId, raw.length, msg.reason, msg.heldAt, raw);
+  return { ...msg, id: Number(lastInsertRowid), size: raw.length };
+}
+
+// Oldest first, without the raw source
+export function heldMessages(): HeldMessage[] {
+  return (db.query("SELECT id, account, folder, sender, subject, message_id, size, reason, held_at FROM held_messages ORDER BY id").all() as HeldRow[]).map(toHeld);
+}
+
+export function heldMessageRaw(id: number): Buffer | undefined {
+  const row = db.query("SELECT raw FROM held_messages WHERE id = ?").get(id) as { raw: Uint8Array } | null;
+  return row ? Buffer.from(row.raw) : undefined;
+}
+
+export function heldCount(): number {
+  return (db.query("SELECT COUNT(*) AS n FROM held_messages").get() as { n: number }).n;
+}
+
+export function deleteHeldMessage(id: number): boolean {
+  return db.query("DELETE FROM held_messages WHERE id = ?").run(id).changes > 0;
+}
+
+export function saveAttachmentLink(link: AttachmentLink): void {
+  db.query(
+    "INSERT INTO attachment_links (token, task_id, filename, content_type, size, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+  ).run(link.token, link.taskId, link.filename, link.contentType, link.size, link.createdAt, link.expiresAt);
+}
+
+// A link that has not expired yet
+export function getAttachmentLink(token: string): AttachmentLink | undefined {
+  const row = db.query("SELECT * FROM attachment_links WHERE token = ? AND expires_at > ?").get(token, new Date().toISOString()) as LinkRow | null;
+  if (!row) return undefined;
+  return {
+    token: row.token,
+    taskId: row.task_id,
+    filename: row.filename,
+    contentType: row.content_type,
+    size: row.size,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+// Delete expired links and return their tokens so the stored files can be removed
+export function pruneAttachmentLinks(): string[] {
+  const now = new Date().toISOString();
+  return db.transaction(() => {
+    const tokens = (db.query("SELECT token FROM attachment_links WHERE expires_at <= ?").all(now) as { token: string }[]).map((r) => r.token);
+    db.query("DELETE FROM attachment_links WHERE expires_at <= ?").run(now);
+    return tokens;
+  })();
+}
+
+// A message seen again (e.g. after a UIDVALIDITY reset) replaces the earlier copy
+export function saveMessage(msg: Omit<SavedMessage, "size">, raw: Buffer): void {
+  db.query(
+    "INSERT OR REPLACE INTO saved_messages (message_id, account, folder, sender, subject, size, received_at, raw) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+  ).run(msg.messageId, msg.account, msg.folder, msg.sender, msg.subject, raw.length, msg.receivedAt, raw);
+}
+
+export function savedMessage(messageId: string): { message: SavedMessage; raw: Buffer } | undefined {
+  const row = db.query("SELECT * FROM saved_messages WHERE message_id = ?").get(messageId) as (SavedRow & { raw: Uint8Array }) | null;
+  if (!row) return undefined;
+  return {
+    message: {
+      messageId: row.message_id,
+      account: row.account,
+      folder: row.folder,
+      sender: row.sender,
+      subject: row.subject,
+      size: row.size,
+      receivedAt: row.received_at,
+    },
+    raw: Buffer.from(row.raw),
+  };
+}
+
+export function pruneSavedMessages(keepDays: number): number {
+  const cutoff = new Date(Date.now() - keepDays * 24 * 3600 * 1000).toISOString();
+  return db.query("DELETE FROM saved_messages WHERE received_at < ?").run(cutoff).changes;
+}
+
+function toQueued(row: QueueRow): QueuedDelivery {
+  return {
+    taskId: row.task_id,
+    recipient: row.recipient,
+    rule: row.rule ?? undefined,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at,
+    deadline: row.deadline,
+  };
+}
+
+// Keep a task's raw message and queue its failed recipients
+export function enqueueDeliveries(taskId: number, raw: Buffer, entries: QueuedDelivery[]): void {
+  const insert = db.query(
+    "INSERT OR REPLACE INTO delivery_queue (task_id, recipient, rule, attempts, last_error, next_attempt_at, deadline) VALUES (?, ?, ?, ?, ?, ?, ?)"
+  );
+  db.transaction(() => {
+    db.query("INSERT OR REPLACE INTO queued_messages (task_id, raw) VALUES (?, ?)").run(taskId, raw);
+    for (const e of entries) insert.run(taskId, e.recipient, e.rule ?? null, e.attempts, e.lastError, e.nextAttemptAt, e.deadline);
+  })();
+}
+
+// A task's queued deliveries, or every one
+export function queuedDeliveries(taskId?: number): QueuedDelivery[] {
+  const rows = taskId === undefined ? db.query("SELECT * FROM delivery_queue ORDER BY task_id").all() : db.query("SELECT * FROM delivery_queue WHERE task_id = ?").all(taskId);
+  return (rows as QueueRow[]).map(toQueued);
+}
+
+// Deliveries whose next attempt is due, soonest first
+export function dueDeliveries(now: number): QueuedDelivery[] {
+  return (db.query("SELECT * FROM delivery_queue WHERE next_attempt_at <= ? ORDER BY next_attempt_at, task_id").all(now) as QueueRow[]).map(toQueued);
+}
+
+export function isQueued(taskId: number, recipient: string): boolean {
+  return !!db.query("SELECT 1 FROM delivery_queue WHERE task_id = ? AND recipient = ?").get(taskId, recipient);
+}
+
+export function queuedDeliveryCount(): number {
+  return (db.query("SELECT COUNT(*) AS n FROM delivery_queue").get() as { n: number }).n;
+}
+
+export function queuedMessageRaw(taskId: number): Buffer | undefined {
+  const row = db.query("SELECT raw FROM queued_messages WHERE task_id = ?").get(taskId) as { raw: Uint8Array } | null;
+  return row ? Buffer.from(row.raw) : undefined;
+}
+
+// Make a task's queued deliveries due now; returns how many there are
+export function retryDeliveriesNow(taskId: number): number {
+  return db.query("UPDATE delivery_queue SET next_attempt_at = 0 WHERE task_id = ?").run(taskId).changes;
+}
+
+// Save an attempt on the queue entry (its attempts, lastError and nextAttemptAt) and on
+// the recipient's result in the task, together. False if the entry has left the queue
+// since it was read, e.g. given up during the attempt; nothing is changed then.
+export function recordDeliveryAttempt(entry: QueuedDelivery, attempt: DeliveryAttempt): boolean {
+  return db.transaction(() => {
+    if (!isQueued(entry.taskId, entry.recipient)) return false;
+    if (attempt.settled) {
+      db.query("DELETE FROM delivery_queue WHERE task_id = ? AND recipient = ?").run(entry.taskId, entry.recipient);
+    } else {
+      db
+        .query("UPDATE delivery_queue SET attempts = ?, last_error = ?, next_attempt_at = ? WHERE task_id = ? AND recipient = ?")
+        .run(entry.attempts, entry.lastError, entry.nextAttemptAt, entry.taskId, entry.recipient);
+    }
+    const task = getTask(entry.taskId);
+    const result = task?.results?.find((r) => r.email === entry.recipient);
+    if (task && result) {
+      result.attempts = (result.attempts || 0) + 1;
+      result.success = attempt.delivered;
+      result.error = attempt.delivered ? undefined : entry.lastError;
+      result.transport = attempt.transport;
+      if (attempt.settled) result.pending = false;
+      updateTaskStatus(task);
+      writeTask(task);
+    }
+    return true;
+  })();
+}
+
+// Drop every queued delivery of a task, recording the reason on each recipient's
+// result; returns the dropped entries
+export function giveUpDeliveries(taskId: number, reason: string): QueuedDelivery[] {
+  return db.transaction(() => {
+    const entries = queuedDeliveries(taskId);
+    if (!entries.length) return entries;
+    db.query("DELETE FROM delivery_queue WHERE task_id = ?").run(taskId);
+    const task = getTask(taskId);
+    if (task) {
+      for (const entry of entries) {
+        const result = task.results?.find((r) => r.email === entry.recipient);
+        if (!result) continue;
+        result.pending = false;
+        result.error = `${reason} - ${entry.lastError}`;
+      }
+      updateTaskStatus(task);
+      writeTask(task);
+    }
+    return entries;
+  })();
+}
+
+// Once none of a task's recipients are queued any more, remove its stored message and
+// return it with the task; null while some still are
+export function settleQueuedTask(taskId: number): { task: ForwardTask | undefined; raw: Buffer | undefined } | null {
+  return db.transaction(() => {
+    if (db.query("SELECT 1 FROM delivery_queue WHERE task_id = ?").get(taskId)) return null;
+    const raw = queuedMessageRaw(taskId);
+    db.query("DELETE FROM queued_messages WHERE task_id = ?").run(taskId);
+    return { task: getTask(taskId), raw };
+  })();
+}
+
+function toDigestItem(row: DigestRow): DigestItem {
+  return {
+    id: row.id,
+    rule: row.rule,
+    taskId: row.task_id,
+    messageId: row.message_id,
+    sender: row.sender,
+    subject: row.subject,
+    size: row.size,
+    attachmentCount: row.attachment_count,
+    receivedAt: row.received_at,
+    pendingRecipients: row.pending_recipients ? JSON.parse(row.pending_recipients) : null,
+  };
+}
+
+export function addDigestItem(item: Omit<DigestItem, "id" | "size" | "pendingRecipients">, raw: Buffer): DigestItem {
+  const { lastInsertRowid } = db
+    .query(
+      "INSERT INTO digest_items (rule, task_id, message_id, sender, subject, size, attachment_count, received_at, raw) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
+    )
+    .run(item.rule, item.taskId, item.messageId, item.sender, item.subject, raw.length, item.attachmentCount, item.receivedAt, raw);
+  return { ...item, id: Number(lastInsertRowid), size: raw.length, pendingRecipients: null };
+}
+
+// Every waiting message, oldest first, without the raw source
+export function digestItems(): DigestItem[] {
+  return (
+    db
+      .query("SELECT id, rule, task_id, message_id, sender, subject, size, attachment_count, received_at, pending_recipients FROM digest_items ORDER BY id")
+      .all() as DigestRow[]
+  ).map(toDigestItem);
+}
+
+export function digestItemRaw(id: number): Buffer | undefined {
+  const row = db.query("SELECT raw FROM digest_items WHERE id = ?").get(id) as { raw: Uint8Array } | null;
+  return row ? Buffer.from(row.raw) : undefined;
+}
+
+// Keep a message only for the recipients a send failed for
+export function setDigestItemRecipients(id: number, recipients: string[]): void {
+  db.query("UPDATE digest_items SET pending_recipients = ? WHERE id = ?").run(JSON.stringify(recipients), id);
+}
+
+export function deleteDigestItems(ids: number[]): number {
+  const remove = db.query("DELETE FROM digest_items WHERE id = ?");
+  return db.transaction(() => ids.reduce((n, id) => n + remove.run(id).changes, 0))();
+}
+
+// Drop finished tasks, dedup entries and webhook deliveries older than the retention period; pending ones are kept
+export function pruneHistory(retentionDays: number): { tasks: number; forwarded: number; webhooks: number } {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 3600 * 1000).toISOString();
+  return db.transaction(() => ({
+    tasks: db.query("DELETE FROM tasks WHERE timestamp < ? AND status != 'pending'").run(cutoff).changes,
+    forwarded: db.query("DELETE FROM forwarded WHERE processed_at < ?").run(cutoff).changes,
+    webhooks: db.query("DELETE FROM webhook_deliveries WHERE created_at < ? AND status != 'pending'").run(cutoff).changes,
+  }))();
+}
+
+// A tasks file that cannot be read as a task list is renamed to *.corrupt, so it
+// does not fail the migration again on every start
+function readLegacyTasks(file: string): (ForwardTask & { matchedTag?: string })[] {
+  try {
+    const data = JSON.parse(readFileSync(file, "utf-8"));
+    if (!Array.isArray(data)) throw new Error("not a list of tasks");
+    return data;
+  } catch (err) {
+    renameSync(file, `${file}.corrupt`);
+    throw new Error(`unreadable, renamed to ${file}.corrupt (${err instanceof Error ? err.message : err})`);
+  }
+}
+
+// Import .tasks.json and .forwarded-ids from earlier versions, then rename them to *.migrated.
+// Each file is imported on its own: a bad tasks file never holds up the dedup IDs.
+export function migrateLegacyFiles(tasksFile: string, forwardedFile: string): { tasks: number; forwarded: number; errors: string[] } {
+  const imported = { tasks: 0, forwarded: 0, errors: [] as string[] };
+  const now = new Date().toISOString();
+
+  if (existsSync(forwardedFile)) {
+    try {
+      const ids = readFileSync(forwardedFile, "utf-8").split("\n").filter(Boolean);
+      const insert = db.query("INSERT OR IGNORE INTO forwarded (message_id, subject, processed_at) VALUES (?, NULL, ?)");
+      db.transaction(() => {
+        for (const id of ids) imported.forwarded += insert.run(id, now).changes;
+      })();
+      renameSync(forwardedFile, `${forwardedFile}.migrated`);
+    } catch (err) {
+      imported.errors.push(`${forwardedFile}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (existsSync(tasksFile)) {
+    try {
+      const data = readLegacyTasks(tasksFile);
+      db.transaction(() => {
+        for (const t of data) {
+          // Tasks saved before multi-rule matching carry a single matchedTag
+          if (!t.matchedTags) t.matchedTags = t.matchedTag ? [t.matchedTag] : [];
+          delete t.matchedTag;
+          writeTask(t);
+          imported.tasks++;
+        }
+      })();
+      renameSync(tasksFile, `${tasksFile}.migrated`);
+    } catch (err) {
+      imported.tasks = 0;
+      imported.errors.push(`${tasksFile}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return imported;
+}
@@ -1,91 +1,428 @@
 import Imap from "imap";
-import { simpleParser, ParsedMail, Source } from "mailparser";
+import { simpleParser, ParsedMail } from "mailparser";
 import nodemailer from "nodemailer";
 import express from "express";
-import { readFileSync, existsSync, appendFileSync, writeFileSync } from "fs";
-import { getReplySubject, getReplyHtml, getReplyText, ReplyData, RecipientResult } from "./reply-template";
+import { randomUUID, randomBytes } from "crypto";
+import { readFileSync, existsSync, appendFileSync, writeFileSync, mkdirSync, unlinkSync, watchFile, unwatchFile } from "fs";
+import { resolve } from "path";
+import { parse as parseJsoncText, modify as modifyJsonc, applyEdits, printParseErrorCode, ParseError, JSONPath } from "jsonc-parser";
+import {
+  getReplySubject,
+  getReplyHtml,
+  getReplyText,
+  ReplyData,
+  RecipientResult,
+  NotifyPolicy,
+  NotifyWhen,
+  DEFAULT_LOCALE,
+  validateNotifyPolicy,
+  shouldNotify,
+  loadReplyLocale,
+  builtinLocale,
+} from "./reply-template";
+import { ForwardRule, CompiledRule, RuleEvaluation, RuleMatch, MatchedRecipient, compileRules, matchRules, ruleLabel } from "./rules";
+import { buildForwardMessage, templateVars, forwardSubject, ForwardOptions } from "./forward-message";
+import {
+  AuthConfig,
+  Principal,
+  Role,
+  SESSION_COOKIE,
+  hashPassword,
+  validateAuthConfig,
+  hasRole,
+  login,
+  logout,
+  loginRetryAfter,
+  recordLoginFailure,
+  clearLoginFailures,
+  sessionPrincipal,
+  tokenPrincipal,
+  parseCookies,
+} from "./auth";
+import { MailOutcome, MailboxAction, MailboxActions, validateMailboxActions, applyMailboxAction, describeAction } from "./mailbox-actions";
+import { counter, collected, histogram, renderMetrics } from "./metrics";
+import { CheckpointMailbox, MailboxCheckpoint, catchUp, initialCheckpoint, uidsAfter } from "./checkpoints";
+import {
+  WebhookTarget,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookDelivery,
+  validateWebhooks,
+  webhookResults,
+  webhookRetryDelay,
+  postWebhook,
+} from "./webhooks";
+import {
+  ForwardTask,
+  TaskAttachment,
+  TaskQuery,
+  TaskStatus,
+  QueuedDelivery,
+  openHistory,
+  closeHistory,
+  updateTaskStatus,
+  saveTask,
+  getTask,
+  queryTasks,
+  maxTaskId,
+  taskCount,
+  isForwarded,
+  recordForwarded,
+  forwardedCount,
+  pruneHistory,
+  migrateLegacyFiles,
+  saveWebhookDelivery,
+  getWebhookDelivery,
+  dueWebhookDeliveries,
+  recentWebhookDeliveries,
+  HeldMessage,
+  holdMessage,
+  heldMessages,
+  heldMessageRaw,
+  heldCount,
+  deleteHeldMessage,
+  saveAttachmentLink,
+  getAttachmentLink,
+  pruneAttachmentLinks,
+  saveMessage,
+  savedMessage,
+  pruneSavedMessages,
+  addDigestItem,
+  digestItems,
+  digestItemRaw,
+  setDigestItemRecipients,
+  deleteDigestItems,
+  enqueueDeliveries,
+  queuedDeliveryCount,
+  queuedMessageRaw,
+  dueDeliveries,
+  isQueued,
+  retryDeliveriesNow,
+  recordDeliveryAttempt,
+  giveUpDeliveries,
+  settleQueuedTask,
+} from "./history";
+import {
+  SenderAuthConfig,
+  SenderContext,
+  validateSenderAuth,
+  validateSenderList,
+  senderListFailure,
+  authFailure,
+  authenticateSender,
+} from "./sender-policy";
+import { loopReason, forwardHeaders, automatedKind, LOOP_HEADER } from "./loop-protection";
+import { RateLimitConfig, validateRateLimits, createRateLimiter } from "./rate-limit";
+import { AppliedAttachmentPolicy, AttachmentPlan, DEFAULT_LINK_EXPIRY_HOURS, planAttachments } from "./attachment-policy";
+import {
+  SmtpTransport,
+  normalizeTransports,
+  transportOptions,
+  dkimOptions,
+  isRecipientError,
+  createCircuitBreaker,
+  DEFAULT_COOLDOWN_SECONDS,
+  DEFAULT_MAX_CONCURRENT,
+} from "./smtp-transports";
+import { DigestItem, buildDigestMessage, digestDueAt, digestItemsToSend, digestLeftovers, nextDigestAt, planDigest } from "./digest";
+import {
+  ProcessingConfig,
+  validateProcessing,
+  createLimiter,
+  createPipeline,
+  DEFAULT_CONCURRENCY,
+  DEFAULT_QUEUE_SIZE,
+  DEFAULT_SHUTDOWN_TIMEOUT_SECONDS,
+} from "./pipeline";
 
 // Types
-interface ForwardRule {
-  tag: string;
-  recipients: string[];
+interface ImapAccount {
+  name: string;
+  user: string;
+  password: string;
+  host: string;
+  port: number;
+  tls: boolean;
+  folders: string[];
+  // Overrides the global allowedSenders for this account
+  allowedSenders?: string[];
+  // Added to the global deniedSenders for this account
+  deniedSenders?: string[];
+  // Rule names (or tags) that apply to this account; all rules when omitted
+  rules?: string[];
+  pollIntervalSeconds?: number;
+}
+
+// Global notification settings; localeByDomain picks a locale from the sender's domain
+interface NotifyConfig extends NotifyPolicy {
+  localeByDomain?: Record<string, string>;
 }
 
 interface Config {
-  imap: {
-    user: string;
-    password: string;
-    host: string;
-    port: number;
-    tls: boolean;
-  };
-  smtp: {
-    host: string;
-    port: number;
-    secure: boolean;
-    auth: { user: string; pass: string };
-  };
+  // A single account object is accepted and normalized to a list
+  imap: ImapAccount[];
+  // Likewise a single transport, named "default"; the first one is the default
+  smtp: SmtpTransport[];
   rules: ForwardRule[];
+  ruleEvaluation?: RuleEvaluation;
   webPort: number;
+  // Address of the web interface as seen by recipients, used for attachment download links
+  publicUrl?: string;
+  auth?: AuthConfig;
   forwardPrefix?: string;
   allowedSenders?: string[];
+  deniedSenders?: string[];
+  // SPF/DKIM/DMARC sources and requirements; rules can add their own requirements
+  senderAuth?: SenderAuthConfig;
+  // Stamped on outgoing mail to detect loops; defaults to the SMTP user
+  instanceId?: string;
+  rateLimits?: RateLimitConfig;
   retryCount?: number;
+  retryBackoffSeconds?: number;
+  retryDeadlineHours?: number;
+  // Finished tasks and dedup entries older than this are deleted
+  retentionDays?: number;
+  // Received messages are kept this long for replays; 0 keeps none
+  replayDays?: number;
+  pollIntervalSeconds?: number;
+  // Concurrency and queue limits for fetched mail, and the shutdown timeout
+  processing?: ProcessingConfig;
+  // IMAP actions per outcome, applied after the message is processed
+  mailboxActions?: MailboxActions;
+  // Reports sent after forwarding; rules can override when/to/locale
+  notify?: NotifyConfig;
+  webhooks?: WebhookTarget[];
   logLevel?: "DEBUG" | "INFO" | "WARN" | "ERROR";
 }
 
-interface ForwardTask {
-  id: number;
-  timestamp: string;
-  subject: string;
-  from: string;
-  matchedTag: string;
-  recipients: string[];
-  status: "success" | "failed";
+// What a rule's attachment policy leaves in the forwarded copy
+type PreparedAttachments = Pick<ForwardOptions, "attachments" | "attachmentNotes">;
+
+// A forward under way, so shutdown can record how far it got if it cannot wait for it
+interface Delivery {
+  task: ForwardTask;
+  mail: ParsedMail;
+  raw: Buffer;
+  immediate: MatchedRecipient[];
+  digested: MatchedRecipient[];
+  // Results of the recipients finished so far, by address
+  done: Map<string, RecipientResult>;
+  // Set once shutdown has recorded it; the forward then leaves the task alone
+  checkpointed: boolean;
+}
+
+// Outcome of processing one message; null when it was already handled before
+interface ProcessResult {
+  outcome: MailOutcome | null;
+  rules: CompiledRule[];
+  // The task recorded for it, if any
+  task?: ForwardTask;
+}
+
+// How processEmail was reached: release retries a held message (force skips the rate
+// limits); replay re-runs a saved message on request, skipping dedup and rate limits
+interface ProcessOptions {
+  release?: boolean;
+  force?: boolean;
+  replay?: boolean;
+}
+
+// The checks processEmail makes before anything is sent, shared with dry runs
+type Decision =
+  | { outcome: "suppressed" | "rejected"; reason: string; rules: string[]; sender?: SenderContext; match?: RuleMatch }
+  | { outcome: "noRule" | "forward"; sender: SenderContext; match: RuleMatch };
+
+// What processEmail would do with a message; nothing is sent or recorded
+interface DryRun {
+  outcome: MailOutcome;
+  reason?: string;
+  mailbox: string;
+  message: { subject: string; from: string; messageId?: string; size: number; attachments: TaskAttachment[] };
+  sender?: SenderContext;
+  rules: string[];
+  blocked: { rule: string; reason: string }[];
+  recipients: { email: string; rule: string }[];
+  // Rendered forwarded copies, one per recipient
+  messages: { to: string; rule: string; mode: string; transport: string; source: string }[];
+  attachmentPolicy: AppliedAttachmentPolicy[];
+  notification: { to: string; subject: string; source: string } | null;
+  // Things worth knowing that do not change the outcome
+  notes: string[];
+}
+
+// Where a message came from
+interface MailSource {
+  account: ImapAccount;
+  folder: string;
+}
+
+// One IMAP connection per watched folder, with its own reconnect state
+interface MailboxListener extends MailSource {
+  key: string;
+  imap: Imap | null;
+  state: "connecting" | "connected" | "disconnected";
+  since: string;
+  lastError?: string;
+  reconnects: number;
+  retryTimer?: NodeJS.Timeout;
+  pollTimer?: NodeJS.Timeout;
+  busy: boolean;
+  rescan: boolean;
+  stopped: boolean;
+  // When the connection was last lost (or first attempted); cleared once connected
+  downSince?: number;
+}
+
+interface SmtpHealth {
+  ok: boolean;
+  checkedAt: number;
   error?: string;
+  // Start of the current run of failed checks
+  failingSince?: number;
 }
 
 // Global state
-const tasks: ForwardTask[] = [];
 let taskId = 0;
 let config: Config;
-let transporter: nodemailer.Transporter;
+let configText = "";
+let compiledRules: CompiledRule[] = [];
+// One nodemailer transport per configured SMTP transport, by name
+const transporters = new Map<string, nodemailer.Transporter>();
+const circuits = createCircuitBreaker();
+// Renders messages instead of sending them, for dry runs
+const previewTransport = nodemailer.createTransport({ streamTransport: true, buffer: true });
 const DATA_DIR = process.env.DATA_DIR || ".";
+const CONFIG_PATH = process.env.CONFIG_PATH || "./config.jsonc";
 const LOG_FILE = `${DATA_DIR}/mail-exchange.log`;
 const FORWARDED_FILE = `${DATA_DIR}/.forwarded-ids`;
 const TASKS_FILE = `${DATA_DIR}/.tasks.json`;
-const forwardedIds = new Set<string>();
+const DB_FILE = `${DATA_DIR}/mail-exchange.db`;
+const CHECKPOINT_FILE = `${DATA_DIR}/.mailbox-state.json`;
+const TEMPLATE_DIR = `${DATA_DIR}/templates`;
+const ATTACHMENT_DIR = `${DATA_DIR}/attachments`;
+const DEFAULT_REPLAY_DAYS = 7;
+// Rendered messages in dry runs are cut off after this many bytes
+const PREVIEW_LIMIT = 256 * 1024;
+const MAX_RETRY_DELAY = 3600 * 1000;
+const listeners = new Map<string, MailboxListener>();
+let checkpoints: Record<string, MailboxCheckpoint> = {};
+let queueRunning = false;
+let webhooksRunning = false;
+let heldRunning = false;
+let digestsRunning = false;
+// Held messages currently being released, so the timer and a manual release never overlap
+const releasing = new Set<number>();
+// Digests being sent, by rule, and when a digest nobody received may be tried again
+const sendingDigests = new Set<string>();
+const digestRetries = new Map<string, { attempts: number; nextAttemptAt: number; error: string }>();
+const rateLimiter = createRateLimiter();
+// Fetched messages wait here for a processing slot, in UID order per mailbox
+const pipeline = createPipeline({ concurrency: DEFAULT_CONCURRENCY, queueSize: DEFAULT_QUEUE_SIZE });
+// Concurrent sends per SMTP transport, by name
+const sendLimiters = new Map<string, ReturnType<typeof createLimiter>>();
+const inFlight = new Set<Delivery>();
+let shuttingDown = false;
+// Background timers, cleared on shutdown
+const timers: NodeJS.Timeout[] = [];
+// Last SMTP reachability check per transport, refreshed on demand by the health endpoints
+const smtpHealth = new Map<string, SmtpHealth>();
+const HEALTH_GRACE = 5 * 60 * 1000;
+const SMTP_CHECK_INTERVAL = 30 * 1000;
+
+// Metrics
+const messagesReceived = counter("mx_messages_received_total", "Messages fetched from IMAP");
+const messagesMatched = counter("mx_messages_matched_total", "Messages matched, per rule");
+const messagesUnmatched = counter("mx_messages_unmatched_total", "Messages that matched no rule");
+const messagesRejected = counter("mx_messages_rejected_total", "Messages refused by a sender policy");
+const messagesSuppressed = counter("mx_messages_suppressed_total", "Messages dropped as mail loops or over a rate limit");
+const attachmentActions = counter("mx_attachments_total", "Attachments changed by a rule's attachment policy, by action (removed, linked)");
+const messagesHeld = counter("mx_messages_held_total", "Messages held back by a rate limit");
+const messagesForwarded = counter("mx_messages_forwarded_total", "Forwarded messages by outcome (forwarded, failed)");
+const recipientDeliveries = counter("mx_recipient_deliveries_total", "Recipient deliveries per rule by outcome (success, queued, failed)");
+const smtpRetries = counter("mx_smtp_retries_total", "SMTP send attempts after the first, by stage (immediate, queue)");
+const deliveryLatency = histogram("mx_smtp_delivery_seconds", "SMTP send latency by transport and outcome", [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]);
+const smtpFailovers = counter("mx_smtp_failovers_total", "Sends moved on to the next transport after this one failed");
+collected("mx_smtp_transport_available", "1 unless the transport is skipped after repeated failures", "gauge", () =>
+  config.smtp.map((t) => [{ transport: t.name }, circuits.available(t.name) ? 1 : 0])
+);
+collected("mx_imap_connected", "1 when the mailbox connection is up", "gauge", () =>
+  [...listeners.values()].map((l) => [{ account: l.account.name, folder: l.folder }, l.state === "connected" ? 1 : 0])
+);
+collected("mx_imap_reconnects_total", "IMAP reconnects since the listener started", "counter", () =>
+  [...listeners.values()].map((l) => [{ account: l.account.name, folder: l.folder }, l.reconnects])
+);
+const webhookDeliveries = counter("mx_webhook_deliveries_total", "Webhook delivery attempts by outcome (delivered, retry, failed)");
+collected("mx_retry_queue_size", "Recipient deliveries waiting in the retry queue", "gauge", () => [[{}, queuedDeliveryCount()]]);
+collected("mx_held_messages", "Messages waiting for a rate limit window", "gauge", () => [[{}, heldCount()]]);
+const digestsSent = counter("mx_digests_sent_total", "Digests sent per rule by outcome (sent, partial, failed)");
+collected("mx_digest_messages", "Messages waiting for their rule's digest", "gauge", () => {
+  const counts = new Map<string, number>(compiledRules.filter((r) => r.rule.digest).map((r) => [r.label, 0]));
+  for (const item of digestItems()) counts.set(item.rule, (counts.get(item.rule) || 0) + 1);
+  return [...counts].map(([rule, n]) => [{ rule }, n]);
+});
+collected("mx_pipeline_messages", "Fetched messages by state (running, waiting for a processing slot)", "gauge", () => {
+  const { running, waiting } = pipeline.stats();
+  return [
+    [{ state: "running" }, running],
+    [{ state: "waiting" }, waiting],
+  ];
+});
+collected("mx_smtp_sends_active", "Messages being sent through each transport", "gauge", () =>
+  [...sendLimiters].map(([transport, limiter]) => [{ transport }, limiter.stats().active])
+);
+
+// Open the history database, importing .tasks.json / .forwarded-ids from earlier versions
+function loadHistory(): void {
+  openHistory(DB_FILE);
+  try {
+    const imported = migrateLegacyFiles(TASKS_FILE, FORWARDED_FILE);
+    if (imported.tasks || imported.forwarded) {
+      log("INFO", `Migrated ${imported.tasks} tasks and ${imported.forwarded} forwarded IDs into ${DB_FILE}`);
+    }
+    for (const error of imported.errors) log("ERROR", `History migration failed for ${error}`);
+  } catch (err) {
+    log("ERROR", `History migration failed: ${err instanceof Error ? err.message : err}`);
+  }
+  taskId = maxTaskId();
+  cleanupHistory();
+}
 
-// Load/save forwarded Message-IDs
-function loadForwardedIds(): void {
-  if (existsSync(FORWARDED_FILE)) {
-    const data = readFileSync(FORWARDED_FILE, "utf-8").trim();
-    if (data) data.split("\n").forEach((id) => forwardedIds.add(id));
+function cleanupHistory(): void {
+  const removed = pruneHistory(config.retentionDays ?? 90);
+  if (removed.tasks || removed.forwarded || removed.webhooks) {
+    log("INFO", `History retention: removed ${removed.tasks} tasks, ${removed.forwarded} forwarded IDs and ${removed.webhooks} webhook deliveries`);
+  }
+  const expired = pruneAttachmentLinks();
+  for (const token of expired) {
+    try {
+      unlinkSync(`${ATTACHMENT_DIR}/${token}`);
+    } catch {}
   }
+  if (expired.length) log("INFO", `Removed ${expired.length} expired attachment links`);
+  const saved = pruneSavedMessages(config.replayDays ?? DEFAULT_REPLAY_DAYS);
+  if (saved) log("DEBUG", `Removed ${saved} saved messages past replayDays`);
 }
 
 function saveForwardedId(messageId: string, subject: string): void {
-  forwardedIds.add(messageId);
-  appendFileSync(FORWARDED_FILE, `${messageId}\n`);
+  recordForwarded(messageId, subject);
   log("INFO", `Marked as processed: ${subject}`);
 }
 
-function loadTasks(): void {
-  if (existsSync(TASKS_FILE)) {
+function loadCheckpoints(): void {
+  if (existsSync(CHECKPOINT_FILE)) {
     try {
-      const data = JSON.parse(readFileSync(TASKS_FILE, "utf-8"));
-      tasks.push(...data);
-      taskId = tasks.length;
+      checkpoints = JSON.parse(readFileSync(CHECKPOINT_FILE, "utf-8"));
     } catch {}
   }
 }
 
-function saveTasks(): void {
-  writeFileSync(TASKS_FILE, JSON.stringify(tasks.slice(0, 100)));
+function saveCheckpoints(): void {
+  writeFileSync(CHECKPOINT_FILE, JSON.stringify(checkpoints, null, 2));
 }
 
 function isAlreadyForwarded(mail: ParsedMail): boolean {
   const messageId = mail.messageId || mail.headers?.get("message-id")?.toString();
-  return messageId ? forwardedIds.has(messageId) : false;
+  return messageId ? isForwarded(messageId) : false;
 }
 
 function getMessageId(mail: ParsedMail): string {
@@ -106,54 +443,381 @@ function log(level: "DEBUG" | "INFO" | "WARN" | "ERROR", message: string): void
 
 // Parse JSONC (JSON with comments)
 function parseJsonc(content: string): unknown {
-  const stripped = content
-    .replace(/\/\/.*$/gm, "")
-    .replace(/\/\*[\s\S]*?\*\//g, "");
-  return JSON.parse(stripped);
+  const errors: ParseError[] = [];
+  const value = parseJsoncText(content, errors, { allowTrailingComma: true });
+  if (errors.length) {
+    const { error, offset } = errors[0];
+    const line = content.slice(0, offset).split("\n").length;
+    throw new Error(`JSONC syntax error: ${printParseErrorCode(error)} at line ${line}`);
+  }
+  return value;
+}
+
+// Edit a JSONC document in place, keeping comments and formatting elsewhere
+function editJsonc(content: string, path: JSONPath, value: unknown, isArrayInsertion = false): string {
+  const edits = modifyJsonc(content, path, value, {
+    isArrayInsertion,
+    formattingOptions: { insertSpaces: true, tabSize: 2, eol: "\n" },
+  });
+  return applyEdits(content, edits);
+}
+
+// Normalize imap to a list of named accounts and check each one against the rules
+function normalizeAccounts(imap: unknown, rules: CompiledRule[]): ImapAccount[] {
+  const list = (Array.isArray(imap) ? imap : [imap]) as Partial<ImapAccount>[];
+  if (!list.length) throw new Error("imap: at least one account is required");
+  const names = new Set<string>();
+  const labels = new Set(rules.map((r) => r.label));
+  return list.map((a, i) => {
+    const path = `imap[${i}]`;
+    if (!a || typeof a !== "object") throw new Error(`${path}: account must be an object`);
+    if (!a.user || !a.host) throw new Error(`${path}: user and host are required`);
+    const name = a.name || a.user;
+    if (names.has(name)) throw new Error(`${path}.name: duplicate account "${name}"`);
+    names.add(name);
+    const folders = a.folders ?? ["INBOX"];
+    if (!Array.isArray(folders) || !folders.length || folders.some((f) => typeof f !== "string" || !f)) {
+      throw new Error(`${path}.folders: must be a non-empty list of folder names`);
+    }
+    for (const r of a.rules || []) {
+      if (!labels.has(r)) throw new Error(`${path}.rules: no rule named "${r}"`);
+    }
+    validateSenderList(a.allowedSenders, `${path}.allowedSenders`);
+    validateSenderList(a.deniedSenders, `${path}.deniedSenders`);
+    return { ...a, name, folders } as ImapAccount;
+  });
+}
+
+// Parse and validate config text; throws on any problem
+function validateNotifyConfig(notify: NotifyConfig | undefined): void {
+  validateNotifyPolicy(notify, "notify");
+  const byDomain = notify?.localeByDomain;
+  if (byDomain === undefined) return;
+  if (!byDomain || typeof byDomain !== "object" || Array.isArray(byDomain)) throw new Error("notify.localeByDomain: must be an object");
+  for (const [domain, locale] of Object.entries(byDomain)) {
+    validateNotifyPolicy({ locale }, `notify.localeByDomain.${domain}`);
+  }
+}
+
+function parseConfig(content: string): { config: Config; rules: CompiledRule[] } {
+  const parsed = parseJsonc(content) as Config;
+  if (!parsed || typeof parsed !== "object") throw new Error("config must be an object");
+  if (parsed.ruleEvaluation !== undefined && parsed.ruleEvaluation !== "first" && parsed.ruleEvaluation !== "all") {
+    throw new Error(`ruleEvaluation: must be "first" or "all"`);
+  }
+  validateAuthConfig(parsed.auth);
+  validateMailboxActions(parsed.mailboxActions, "mailboxActions");
+  validateNotifyConfig(parsed.notify);
+  validateWebhooks(parsed.webhooks);
+  validateSenderList(parsed.allowedSenders, "allowedSenders");
+  validateSenderList(parsed.deniedSenders, "deniedSenders");
+  validateSenderAuth(parsed.senderAuth);
+  validateRateLimits(parsed.rateLimits);
+  validateProcessing(parsed.processing);
+  if (parsed.instanceId !== undefined && (typeof parsed.instanceId !== "string" || !/^[^\s]+$/.test(parsed.instanceId))) {
+    throw new Error("instanceId: must be a non-empty string without spaces");
+  }
+  if (parsed.retentionDays !== undefined && !(parsed.retentionDays > 0)) throw new Error("retentionDays: must be positive");
+  if (parsed.replayDays !== undefined && !(parsed.replayDays >= 0)) throw new Error("replayDays: must be 0 or more");
+  const rules = compileRules(parsed.rules, parsed.senderAuth);
+  if (parsed.publicUrl !== undefined && !/^https?:\/\/[^\s]+$/.test(parsed.publicUrl)) throw new Error("publicUrl: must be an http(s) URL");
+  const linking = rules.find((r) => r.rule.attachments?.links);
+  if (linking && !parsed.publicUrl) throw new Error(`publicUrl: required for download links (rule ${linking.label})`);
+  parsed.imap = normalizeAccounts(parsed.imap, rules);
+  parsed.smtp = normalizeTransports(parsed.smtp);
+  const transportNames = parsed.smtp.map((t) => t.name);
+  parsed.rules.forEach((rule, i) => {
+    const unknown = [rule.transport, ...(rule.fallbackTransports || [])].find((n) => n !== undefined && !transportNames.includes(n));
+    if (unknown) throw new Error(`rules[${i}]: unknown transport "${unknown}"`);
+  });
+  return { config: parsed, rules };
 }
 
 // Load config
 function loadConfig(): Config {
-  const configPath = process.env.CONFIG_PATH || "./config.jsonc";
-  if (!existsSync(configPath)) {
-    log("ERROR", `Config file not found: ${configPath}`);
+  if (!existsSync(CONFIG_PATH)) {
+    log("ERROR", `Config file not found: ${CONFIG_PATH}`);
+    process.exit(1);
+  }
+  try {
+    configText = readFileSync(CONFIG_PATH, "utf-8");
+    const loaded = parseConfig(configText);
+    compiledRules = loaded.rules;
+    return loaded.config;
+  } catch (err) {
+    log("ERROR", `Invalid config: ${err instanceof Error ? err.message : err}`);
     process.exit(1);
   }
-  return parseJsonc(readFileSync(configPath, "utf-8")) as Config;
 }
 
-// Match forwarding rule by subject
-function matchRule(subject: string): ForwardRule | null {
-  const lowerSubject = subject.toLowerCase();
-  for (const rule of config.rules) {
-    if (lowerSubject.includes(rule.tag.toLowerCase())) {
-      return rule;
+// Create nodemailer transports for new or changed SMTP transports and close removed ones
+function syncTransports(previous: SmtpTransport[] = []): void {
+  for (const t of config.smtp) {
+    const limit = t.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+    if (sendLimiters.has(t.name)) sendLimiters.get(t.name)!.setLimit(limit);
+    else sendLimiters.set(t.name, createLimiter(limit));
+    const old = previous.find((p) => p.name === t.name);
+    if (old && JSON.stringify(transportOptions(old)) === JSON.stringify(transportOptions(t)) && transporters.has(t.name)) continue;
+    transporters.get(t.name)?.close();
+    transporters.set(t.name, nodemailer.createTransport(transportOptions(t)));
+    circuits.success(t.name);
+    if (old) log("INFO", `SMTP transport ${t.name} changed, recreated`);
+  }
+  const names = config.smtp.map((t) => t.name);
+  for (const [name, transport] of transporters) {
+    if (names.includes(name)) continue;
+    transport.close();
+    transporters.delete(name);
+    sendLimiters.delete(name);
+    smtpHealth.delete(name);
+  }
+  circuits.retain(names);
+}
+
+// Apply the processing limits; mail already waiting keeps its place
+function syncProcessing(): void {
+  pipeline.configure(config.processing?.concurrency ?? DEFAULT_CONCURRENCY, config.processing?.queueSize ?? DEFAULT_QUEUE_SIZE);
+}
+
+// Swap in a validated config; SMTP transports are rebuilt and IMAP listeners resynced
+function applyConfig(next: Config, rules: CompiledRule[], text: string): void {
+  const previousSmtp = config.smtp;
+  if (next.webPort !== config.webPort) {
+    log("WARN", "webPort changed, restart required to apply");
+  }
+  config = next;
+  compiledRules = rules;
+  configText = text;
+  syncTransports(previousSmtp);
+  syncProcessing();
+  syncImapListeners();
+}
+
+// Re-read the config file after an external edit; invalid edits are ignored
+function reloadConfig(): void {
+  let text: string;
+  try {
+    text = readFileSync(CONFIG_PATH, "utf-8");
+  } catch (err) {
+    log("ERROR", `Config reload failed: ${err instanceof Error ? err.message : err}`);
+    return;
+  }
+  if (text === configText) return;
+  try {
+    const next = parseConfig(text);
+    applyConfig(next.config, next.rules, text);
+    log("INFO", `Config reloaded: ${config.rules.length} rules`);
+  } catch (err) {
+    log("ERROR", `Config reload rejected, keeping running config: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+// Apply an edit to the config file; validated before anything is written
+function writeConfigEdit(edit: (text: string) => string): void {
+  const text = edit(readFileSync(CONFIG_PATH, "utf-8"));
+  const next = parseConfig(text);
+  writeFileSync(CONFIG_PATH, text);
+  applyConfig(next.config, next.rules, text);
+}
+
+// Rule edits from the API, each a minimal change to the JSONC file
+function addRule(rule: ForwardRule, position?: number): void {
+  if (position !== undefined && !Number.isInteger(position)) throw new Error("position: must be a rule index");
+  const at = position === undefined ? config.rules.length : Math.max(0, Math.min(position, config.rules.length));
+  writeConfigEdit((text) => editJsonc(text, ["rules", at], rule, true));
+  log("INFO", `Rule added at #${at + 1}: ${ruleLabel(rule, at)}`);
+}
+
+function updateRule(index: number, rule: ForwardRule): void {
+  if (!rule || typeof rule !== "object" || Array.isArray(rule)) throw new Error(`rules[${index}]: rule must be an object`);
+  const current = config.rules[index] as unknown as Record<string, unknown>;
+  const next = rule as unknown as Record<string, unknown>;
+  writeConfigEdit((text) => {
+    for (const key of Object.keys(current)) {
+      if (!(key in next)) text = editJsonc(text, ["rules", index, key], undefined);
+    }
+    for (const [key, value] of Object.entries(next)) {
+      if (JSON.stringify(value) !== JSON.stringify(current[key])) text = editJsonc(text, ["rules", index, key], value);
+    }
+    return text;
+  });
+  log("INFO", `Rule #${index + 1} updated: ${ruleLabel(rule, index)}`);
+}
+
+function deleteRule(index: number): void {
+  const label = ruleLabel(config.rules[index], index);
+  writeConfigEdit((text) => editJsonc(text, ["rules", index], undefined));
+  log("INFO", `Rule #${index + 1} deleted: ${label}`);
+}
+
+function moveRule(from: number, to: number): void {
+  if (!Number.isInteger(to)) throw new Error("to: must be a rule index");
+  const rule = config.rules[from];
+  const target = Math.max(0, Math.min(to, config.rules.length - 1));
+  writeConfigEdit((text) => editJsonc(editJsonc(text, ["rules", from], undefined), ["rules", target], rule, true));
+  log("INFO", `Rule moved #${from + 1} -> #${target + 1}: ${ruleLabel(rule, target)}`);
+}
+
+// Match forwarding rules against the mail's conditions, limited to the account's rules
+function matchRule(mail: ParsedMail, account: ImapAccount, sender: SenderContext): RuleMatch {
+  const rules = account.rules ? compiledRules.filter((r) => account.rules!.includes(r.label)) : compiledRules;
+  return matchRules(rules, mail, config.ruleEvaluation, sender);
+}
+
+// Our value for the loop header
+function instanceId(): string {
+  return config.instanceId || config.smtp[0].auth.user;
+}
+
+// Store an attachment under a random token and return its download link
+function storeAttachmentLink(taskId: number, a: ParsedMail["attachments"][number], expiryHours: number): AppliedAttachmentPolicy["linked"][number] {
+  const token = randomBytes(24).toString("base64url");
+  const filename = a.filename || "attachment";
+  const now = Date.now();
+  mkdirSync(ATTACHMENT_DIR, { recursive: true });
+  writeFileSync(`${ATTACHMENT_DIR}/${token}`, a.content);
+  const expiresAt = new Date(now + expiryHours * 3600 * 1000).toISOString();
+  saveAttachmentLink({ token, taskId, filename, contentType: a.contentType, size: a.size, createdAt: new Date(now).toISOString(), expiresAt });
+  return { filename, size: a.size, url: attachmentUrl(token, filename), expiresAt };
+}
+
+function attachmentUrl(token: string, filename: string): string {
+  return `${config.publicUrl!.replace(/\/+$/, "")}/files/${token}/${encodeURIComponent(filename)}`;
+}
+
+// Record of a plan for one rule; link turns each attachment over the limit into a download link
+function appliedPolicy(
+  rule: CompiledRule,
+  plan: AttachmentPlan,
+  link: (a: ParsedMail["attachments"][number]) => AppliedAttachmentPolicy["linked"][number]
+): AppliedAttachmentPolicy {
+  return {
+    rule: rule.label,
+    kept: plan.kept.length,
+    removed: plan.removed.map((r) => ({ filename: r.attachment.filename || "(unnamed)", reason: r.reason })),
+    linked: plan.linked.map(link),
+  };
+}
+
+// Apply the rule's attachment policy. The first call for a task records what was
+// done (storing linked files); queued retries reuse that record and its links.
+function prepareAttachments(task: ForwardTask | undefined, rule: CompiledRule | undefined, mail: ParsedMail): PreparedAttachments | undefined {
+  const policy = rule?.rule.attachments;
+  if (!policy || !task) return undefined;
+  const plan = planAttachments(mail.attachments || [], policy);
+  let applied = task.attachmentPolicy?.find((p) => p.rule === rule.label);
+  if (!applied) {
+    const expiryHours = policy.linkExpiryHours ?? DEFAULT_LINK_EXPIRY_HOURS;
+    applied = appliedPolicy(rule, plan, (a) => storeAttachmentLink(task.id, a, expiryHours));
+    (task.attachmentPolicy ||= []).push(applied);
+    if (applied.removed.length) attachmentActions.inc({ rule: rule.label, action: "removed" }, applied.removed.length);
+    if (applied.linked.length) attachmentActions.inc({ rule: rule.label, action: "linked" }, applied.linked.length);
+    if (applied.removed.length || applied.linked.length) {
+      log("INFO", `Attachment policy ${rule.label}: ${applied.kept} kept, ${applied.removed.length} removed, ${applied.linked.length} linked`);
+    }
+  }
+  return { attachments: plan.kept, attachmentNotes: applied };
+}
+
+// From address of mail sent through a transport, unless a rule's identity says otherwise
+function transportAddress(transport: SmtpTransport): string {
+  return transport.from || transport.auth.user;
+}
+
+// A rule's transports in failover order: its primary (by default the first configured), then its fallbacks
+function transportChain(rule?: CompiledRule): SmtpTransport[] {
+  const names = new Set([rule?.rule.transport || config.smtp[0].name, ...(rule?.rule.fallbackTransports || [])]);
+  return config.smtp.filter((t) => names.has(t.name)).sort((a, b) => [...names].indexOf(a.name) - [...names].indexOf(b.name));
+}
+
+// Transports worth trying now: those whose circuit is closed, or all of them if none is
+function availableTransports(chain: SmtpTransport[]): SmtpTransport[] {
+  const available = chain.filter((t) => circuits.available(t.name));
+  return available.length ? available : chain;
+}
+
+// Build the forwarded copy for a single recipient, in the mode of the rule that claimed it
+function buildForward(
+  mail: ParsedMail,
+  raw: Buffer,
+  recipient: string,
+  transport: SmtpTransport,
+  rule?: CompiledRule,
+  prepared?: PreparedAttachments
+): nodemailer.SendMailOptions {
+  const vars = templateVars(mail, { label: rule?.label || "", tag: rule?.rule.tag }, config.forwardPrefix);
+  const template = rule?.rule.template;
+  const mode = rule?.rule.mode || "inline";
+  const identity = rule?.rule.identity;
+  const message = buildForwardMessage(mail, raw, {
+    mode,
+    from: identity?.from || transportAddress(transport),
+    replyTo: identity?.replyTo,
+    to: recipient,
+    subject: forwardSubject(template?.subject, vars),
+    template,
+    vars,
+    headers: forwardHeaders(mail, instanceId(), mode === "redirect"),
+    ...prepared,
+  });
+  return identity?.dkim ? { ...message, dkim: dkimOptions(identity.dkim) } : message;
+}
+
+// sendMail within the transport's concurrency limit, with its latency recorded
+// (from the start of the send, not counting the wait for a slot)
+async function timedSend(transport: SmtpTransport, options: nodemailer.SendMailOptions): Promise<void> {
+  await sendLimiters.get(transport.name)!.run(async () => {
+    const start = Date.now();
+    try {
+      await transporters.get(transport.name)!.sendMail(options);
+      deliveryLatency.observe({ outcome: "success", transport: transport.name }, (Date.now() - start) / 1000);
+    } catch (err) {
+      deliveryLatency.observe({ outcome: "failure", transport: transport.name }, (Date.now() - start) / 1000);
+      throw err;
+    }
+  });
+}
+
+// Send through the first transport of the chain that takes the message, failing over
+// on relay errors; build gets the transport so the From address can follow it.
+// Returns the name of the transport that delivered the message.
+async function sendVia(chain: SmtpTransport[], build: (transport: SmtpTransport) => nodemailer.SendMailOptions): Promise<string> {
+  const candidates = availableTransports(chain);
+  let lastError: unknown;
+  for (const [i, transport] of candidates.entries()) {
+    try {
+      await timedSend(transport, build(transport));
+      circuits.success(transport.name);
+      return transport.name;
+    } catch (err) {
+      if (isRecipientError(err)) throw err;
+      lastError = err;
+      const message = err instanceof Error ? err.message : String(err);
+      if (circuits.failure(transport, message)) {
+        log("WARN", `SMTP transport ${transport.name} failed ${circuits.state(transport.name).failures} times in a row, skipping it for ${transport.cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS}s`);
+      }
+      const next = candidates[i + 1];
+      if (next) {
+        log("WARN", `SMTP transport ${transport.name} failed, trying ${next.name} - ${message}`);
+        smtpFailovers.inc({ transport: transport.name });
+      }
     }
   }
-  return null;
+  throw lastError;
 }
 
 // Send email to single recipient with retry
-async function sendToRecipient(mail: ParsedMail, recipient: string, from: string): Promise<RecipientResult> {
+async function sendToRecipient(mail: ParsedMail, raw: Buffer, target: MatchedRecipient, prepared?: PreparedAttachments): Promise<RecipientResult> {
   const maxAttempts = config.retryCount ?? 3;
+  const recipient = target.email;
   let lastError = "";
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) smtpRetries.inc({ stage: "immediate" });
     try {
-      await transporter.sendMail({
-        from: config.smtp.auth.user,
-        to: recipient,
-        subject: config.forwardPrefix ? `${config.forwardPrefix} ${mail.subject}` : mail.subject,
-        text: mail.text || "",
-        html: mail.html || undefined,
-        attachments: mail.attachments?.map((a) => ({
-          filename: a.filename,
-          content: a.content,
-          contentType: a.contentType,
-        })),
-      });
-      log("INFO", `  -> ${recipient}: OK${attempt > 1 ? ` (attempt ${attempt})` : ""}`);
-      return { email: recipient, success: true, attempts: attempt };
+      const transport = await sendVia(transportChain(target.rule), (t) => buildForward(mail, raw, recipient, t, target.rule, prepared));
+      log("INFO", `  -> ${recipient}: OK via ${transport}${attempt > 1 ? ` (attempt ${attempt})` : ""}`);
+      return { email: recipient, success: true, attempts: attempt, rule: target.rule.label, transport };
     } catch (err) {
       lastError = err instanceof Error ? err.message : String(err);
       log("WARN", `  -> ${recipient}: RETRY ${attempt}/${maxAttempts} - ${lastError}`);
@@ -161,164 +825,1638 @@ async function sendToRecipient(mail: ParsedMail, recipient: string, from: string
     }
   }
   log("ERROR", `  -> ${recipient}: FAILED after ${maxAttempts} attempts - ${lastError}`);
-  return { email: recipient, success: false, error: lastError, attempts: maxAttempts };
+  return { email: recipient, success: false, error: lastError, attempts: maxAttempts, rule: target.rule.label };
+}
+
+// Forward email to all recipients of the matched rules
+// Attachment policies are applied once per rule and recorded on the task; each
+// result is also put in `done` as soon as that recipient is finished
+async function forwardEmail(mail: ParsedMail, raw: Buffer, match: RuleMatch, from: string, task: ForwardTask, done?: Map<string, RecipientResult>): Promise<RecipientResult[]> {
+  const labels = match.rules.map((r) => r.label).join(",");
+  log("INFO", `Forwarding from=${from} rules=${labels} to=${match.recipients.length} recipients`);
+  const prepared = new Map(match.rules.map((r) => [r.label, prepareAttachments(task, r, mail)]));
+  return Promise.all(
+    match.recipients.map(async (r) => {
+      const result = await sendToRecipient(mail, raw, r, prepared.get(r.rule.label));
+      done?.set(r.email, result);
+      return result;
+    })
+  );
+}
+
+// Exponential backoff for queued retries: base, 2x base, 4x base ... capped at an hour
+function retryDelay(attempt: number): number {
+  const base = (config.retryBackoffSeconds ?? 60) * 1000;
+  return Math.min(base * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY);
+}
+
+// Store the raw message and queue every failed recipient for later retry
+function enqueueFailed(task: ForwardTask, raw: Buffer): void {
+  const failed = (task.results || []).filter((r) => !r.success && !r.digest);
+  if (!failed.length) return;
+
+  const now = Date.now();
+  const deadline = now + (config.retryDeadlineHours ?? 24) * 3600 * 1000;
+  const entries = failed.map(
+    (r): QueuedDelivery => ({ taskId: task.id, recipient: r.email, rule: r.rule, attempts: 0, lastError: r.error || "", nextAttemptAt: now + retryDelay(1), deadline })
+  );
+  enqueueDeliveries(task.id, raw, entries);
+  for (const r of failed) {
+    r.pending = true;
+    log("INFO", `  -> ${r.email}: queued for retry (task #${task.id})`);
+  }
+}
+
+// Once a task has no queue entries left, drop its stored message and send the final report
+async function settleTask(id: number): Promise<void> {
+  const settled = settleQueuedTask(id);
+  if (!settled?.task) return;
+  const { task, raw } = settled;
+
+  publish("task", task);
+  // Still waiting for a digest; sendDigest reports it once that goes out
+  if (task.status === "pending") return;
+  log(task.status === "success" ? "INFO" : "ERROR", `Retry queue settled for task #${id}: ${task.subject} - ${task.error || "all delivered"}`);
+  emitWebhook(task.status === "success" ? "forwarded" : "partially_failed", taskMessage(task), task);
+  if (!raw) return;
+  try {
+    const rules = compiledRules.filter((r) => task.matchedTags.includes(r.label));
+    await sendReplyNotification(await simpleParser(raw), rules, task.matchedTags, task.results || [], task.duration || 0, true);
+  } catch (err) {
+    log("WARN", `Failed to send reply notification: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+// Attempt every due queue entry once. Each outcome is saved with the task's result
+// as it comes, so a shutdown can stop the run between entries.
+async function processQueue(): Promise<void> {
+  if (queueRunning) return;
+  queueRunning = true;
+  try {
+    const parsed = new Map<number, { mail: ParsedMail; raw: Buffer } | null>();
+    const settled = new Set<number>();
+
+    for (const entry of dueDeliveries(Date.now())) {
+      if (shuttingDown) break;
+      // Dropped from the queue (given up) since the run started
+      if (!isQueued(entry.taskId, entry.recipient)) continue;
+      const task = getTask(entry.taskId);
+      if (!parsed.has(entry.taskId)) {
+        const raw = queuedMessageRaw(entry.taskId);
+        parsed.set(entry.taskId, raw ? { mail: await simpleParser(raw), raw } : null);
+      }
+      const message = parsed.get(entry.taskId);
+      const mail = message?.mail;
+      entry.attempts++;
+
+      let delivered = false;
+      let transport: string | undefined;
+      if (mail) {
+        try {
+          const rule = compiledRules.find((r) => r.label === entry.rule);
+          const prepared = prepareAttachments(task, rule, mail);
+          smtpRetries.inc({ stage: "queue" });
+          transport = await sendVia(transportChain(rule), (t) => buildForward(mail, message.raw, entry.recipient, t, rule, prepared));
+          delivered = true;
+        } catch (err) {
+          entry.lastError = err instanceof Error ? err.message : String(err);
+        }
+      } else {
+        entry.lastError = "Queued message missing";
+      }
+
+      const giveUp = !delivered && (!mail || Date.now() + retryDelay(entry.attempts + 1) > entry.deadline);
+      if (!delivered && !giveUp) entry.nextAttemptAt = Date.now() + retryDelay(entry.attempts + 1);
+      if (!recordDeliveryAttempt(entry, { delivered, transport, settled: delivered || giveUp })) {
+        log("WARN", `  -> ${entry.recipient}: removed from the queue during the attempt (task #${entry.taskId})${delivered ? ", delivered anyway" : ""}`);
+        continue;
+      }
+      if (delivered) {
+        log("INFO", `  -> ${entry.recipient}: OK via ${transport} (queued retry ${entry.attempts}, task #${entry.taskId})`);
+      } else if (giveUp) {
+        log("ERROR", `  -> ${entry.recipient}: GAVE UP after ${entry.attempts} queued retries - ${entry.lastError}`);
+      } else {
+        log("WARN", `  -> ${entry.recipient}: queued retry ${entry.attempts} failed, next at ${new Date(entry.nextAttemptAt).toISOString()} - ${entry.lastError}`);
+      }
+
+      if (delivered || giveUp) {
+        recipientDeliveries.inc({ rule: entry.rule || "", outcome: delivered ? "success" : "failed" });
+        settled.add(entry.taskId);
+      }
+      const updated = getTask(entry.taskId);
+      if (updated) publish("task", updated);
+    }
+
+    for (const id of settled) await settleTask(id);
+  } finally {
+    queueRunning = false;
+  }
+}
+
+// Wait for a queue run under way to finish, so a manual retry gets a run of its own
+async function queueIdle(): Promise<void> {
+  while (queueRunning) await new Promise((r) => setTimeout(r, 100));
+}
+
+// Manual "retry now" from the dashboard
+async function retryTaskNow(id: number): Promise<boolean> {
+  await queueIdle();
+  if (!retryDeliveriesNow(id)) return false;
+  log("INFO", `Manual retry requested for task #${id}`);
+  await processQueue();
+  return true;
+}
+
+// Manual "give up" from the dashboard; an attempt already under way for one of the
+// recipients finds its entry gone and leaves the task alone
+async function giveUpTask(id: number): Promise<boolean> {
+  const entries = giveUpDeliveries(id, "Given up manually");
+  if (!entries.length) return false;
+  for (const entry of entries) recipientDeliveries.inc({ rule: entry.rule || "", outcome: "failed" });
+  log("WARN", `Manual give up for task #${id}: ${entries.length} queued deliveries dropped`);
+  await settleTask(id);
+  return true;
+}
+
+function taskAttachments(mail: ParsedMail): TaskAttachment[] {
+  return (mail.attachments || []).map((a) => ({ filename: a.filename || "(unnamed)", contentType: a.contentType, size: a.size }));
+}
+
+// Webhook message section for a mail that has not become a task (received, rejected, no rule)
+function mailMessage(mail: ParsedMail, raw: Buffer, source: MailSource): WebhookPayload["message"] {
+  return {
+    subject: mail.subject || "(no subject)",
+    from: mail.from?.text || "unknown",
+    fromAddress: mail.from?.value?.[0]?.address || "",
+    messageId: mail.messageId || null,
+    account: source.account.name,
+    folder: source.folder,
+    size: raw.length,
+    attachments: taskAttachments(mail),
+  };
+}
+
+function taskMessage(task: ForwardTask): WebhookPayload["message"] {
+  return {
+    subject: task.subject,
+    from: task.from,
+    fromAddress: task.from.match(/<([^>]+)>/)?.[1] || (task.from.includes("@") ? task.from : ""),
+    messageId: task.messageId || null,
+    account: task.account || null,
+    folder: task.folder || null,
+    size: task.size ?? null,
+    attachments: task.attachments || [],
+  };
+}
+
+// Persist one delivery per subscribed webhook and attempt it right away
+function emitWebhook(event: WebhookEvent, message: WebhookPayload["message"], task?: ForwardTask): void {
+  const targets = (config.webhooks || []).filter((w) => w.events.includes(event));
+  if (!targets.length) return;
+  const now = new Date().toISOString();
+  const payload: WebhookPayload = {
+    version: 1,
+    id: randomUUID(),
+    event,
+    timestamp: now,
+    message,
+    task: task
+      ? {
+          id: task.id,
+          status: task.status,
+          matchedRules: task.matchedTags,
+          recipients: task.recipients,
+          error: task.error ?? null,
+          duration: task.duration ?? null,
+          final: task.status !== "pending",
+        }
+      : null,
+    results: webhookResults(task?.results || []),
+  };
+  const body = JSON.stringify(payload);
+  for (const target of targets) {
+    // The lease keeps the retry loop from picking it up while the first attempt is in flight
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      webhook: target.name,
+      event,
+      taskId: task?.id ?? null,
+      payload: body,
+      status: "pending",
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      nextAttemptAt: Date.now() + 60 * 1000,
+      createdAt: now,
+      updatedAt: now,
+    };
+    saveWebhookDelivery(delivery);
+    deliverWebhook(delivery).catch((err) => log("ERROR", `Webhook ${target.name} error: ${err instanceof Error ? err.message : err}`));
+  }
+}
+
+async function deliverWebhook(delivery: WebhookDelivery): Promise<void> {
+  const target = config.webhooks?.find((w) => w.name === delivery.webhook);
+  delivery.attempts++;
+  if (!target) {
+    delivery.status = "failed";
+    delivery.error = "Webhook no longer configured";
+  } else {
+    try {
+      delivery.responseStatus = await postWebhook(target, delivery);
+      delivery.status = "delivered";
+      delivery.error = null;
+      log("INFO", `Webhook ${target.name}: ${delivery.event} delivered (HTTP ${delivery.responseStatus})`);
+    } catch (err) {
+      delivery.responseStatus = (err as { status?: number }).status ?? null;
+      delivery.error = err instanceof Error ? err.message : String(err);
+      const delay = webhookRetryDelay(delivery.attempts);
+      if (delay === null) {
+        delivery.status = "failed";
+        log("ERROR", `Webhook ${target.name}: ${delivery.event} failed after ${delivery.attempts} attempts - ${delivery.error}`);
+      } else {
+        delivery.nextAttemptAt = Date.now() + delay;
+        log("WARN", `Webhook ${target.name}: ${delivery.event} attempt ${delivery.attempts} failed, retrying in ${delay / 1000}s - ${delivery.error}`);
+      }
+    }
+  }
+  delivery.updatedAt = new Date().toISOString();
+  webhookDeliveries.inc({ webhook: delivery.webhook, outcome: delivery.status === "pending" ? "retry" : delivery.status });
+  saveWebhookDelivery(delivery);
+  publish("webhook", deliverySummary(delivery));
+}
+
+// Retry due webhook deliveries, oldest first
+async function processWebhooks(): Promise<void> {
+  if (webhooksRunning) return;
+  webhooksRunning = true;
+  try {
+    for (const delivery of dueWebhookDeliveries(Date.now())) {
+      if (shuttingDown) break;
+      await deliverWebhook(delivery);
+    }
+  } finally {
+    webhooksRunning = false;
+  }
+}
+
+// Manual redelivery from the dashboard; starts a fresh round of attempts
+async function redeliverWebhook(id: string): Promise<WebhookDelivery | undefined> {
+  const delivery = getWebhookDelivery(id);
+  if (!delivery || delivery.status === "pending") return undefined;
+  delivery.status = "pending";
+  delivery.attempts = 0;
+  delivery.nextAttemptAt = Date.now() + 60 * 1000;
+  saveWebhookDelivery(delivery);
+  log("INFO", `Manual redelivery of webhook ${delivery.webhook}: ${delivery.event}`);
+  await deliverWebhook(delivery);
+  return delivery;
 }
 
-// Forward email to all recipients
-async function forwardEmail(mail: ParsedMail, rule: ForwardRule, from: string): Promise<RecipientResult[]> {
-  log("INFO", `Forwarding from=${from} tag=${rule.tag} to=${rule.recipients.length} recipients`);
-  return Promise.all(rule.recipients.map((r) => sendToRecipient(mail, r, from)));
+// Delivery log entries without the payload
+function deliverySummary({ payload, ...rest }: WebhookDelivery) {
+  return rest;
 }
 
-// Send reply notification to original sender
-async function sendReplyNotification(mail: ParsedMail, results: RecipientResult[], duration: number): Promise<void> {
-  const replyTo = mail.from?.value?.[0]?.address;
-  if (!replyTo) return;
+// Effective notify settings: each field from the first matched rule that sets it, else global.
+// Without a configured locale the sender's domain is looked up in localeByDomain (subdomains included).
+function notifyPolicyFor(rules: CompiledRule[], sender: string): { when: NotifyWhen; to?: string; locale: string } {
+  const pick = <K extends keyof NotifyPolicy>(key: K) => rules.map((r) => r.rule.notify?.[key]).find((v) => v !== undefined) ?? config.notify?.[key];
+  let locale = rules.map((r) => r.rule.notify?.locale).find(Boolean);
+  if (!locale) {
+    const domain = sender.split("@")[1]?.toLowerCase() || "";
+    const entry = Object.entries(config.notify?.localeByDomain || {}).find(([d]) => domain === d.toLowerCase() || domain.endsWith(`.${d.toLowerCase()}`));
+    locale = entry?.[1] || config.notify?.locale || DEFAULT_LOCALE;
+  }
+  return { when: pick("when") || "always", to: pick("to"), locale };
+}
+
+// The forwarding report for the original sender, or wherever the notify policy says;
+// null when the policy wants none. followUp marks the final report of a task that
+// went through the retry queue. The From address is left to the transport it goes out on.
+function replyNotification(
+  mail: ParsedMail,
+  rules: CompiledRule[],
+  matchedTags: string[],
+  results: RecipientResult[],
+  duration: number,
+  followUp = false
+): nodemailer.SendMailOptions | null {
+  const sender = mail.from?.value?.[0]?.address || "";
+  const policy = notifyPolicyFor(rules, sender);
+  if (!shouldNotify(policy.when, results, followUp)) return null;
+  const replyTo = policy.to || sender;
+  if (!replyTo) return null;
+
+  let locale = builtinLocale();
+  try {
+    const loaded = loadReplyLocale(TEMPLATE_DIR, policy.locale);
+    if (loaded) locale = loaded;
+    else log("WARN", `Notification locale "${policy.locale}" not found, using ${DEFAULT_LOCALE}`);
+  } catch (err) {
+    log("WARN", `Failed to load notification locale "${policy.locale}": ${err instanceof Error ? err.message : err}`);
+  }
 
   const data: ReplyData = {
     subject: mail.subject || "(no subject)",
+    rules: matchedTags,
     results,
     duration,
     timestamp: new Date().toISOString(),
   };
 
-  await transporter.sendMail({
-    from: config.smtp.auth.user,
+  return {
     to: replyTo,
-    subject: getReplySubject(data),
-    text: getReplyText(data),
-    html: getReplyHtml(data),
-  });
+    subject: getReplySubject(data, locale),
+    text: getReplyText(data, locale),
+    html: getReplyHtml(data, locale),
+    headers: { [LOOP_HEADER]: instanceId(), "Auto-Submitted": "auto-replied" },
+  };
+}
+
+// Send the forwarding report through the first matched rule's transports; automated
+// mail (bounces, auto replies, lists) never gets one
+async function sendReplyNotification(
+  mail: ParsedMail,
+  rules: CompiledRule[],
+  matchedTags: string[],
+  results: RecipientResult[],
+  duration: number,
+  followUp = false
+): Promise<void> {
+  const automated = automatedKind(mail);
+  if (automated) {
+    log("DEBUG", `No notification for ${automated} message: ${mail.subject || "(no subject)"}`);
+    return;
+  }
+  const notification = replyNotification(mail, rules, matchedTags, results, duration, followUp);
+  if (notification) await sendVia(transportChain(rules[0]), (t) => ({ ...notification, from: transportAddress(t) }));
+}
+
+// Sender address plus SPF/DKIM/DMARC verdicts; authentication only runs when something requires it
+async function senderContext(mail: ParsedMail, raw: Buffer): Promise<SenderContext> {
+  const address = (mail.from?.value?.[0]?.address || "").toLowerCase();
+  const auth = config.senderAuth;
+  const needed = !!auth?.require?.length || compiledRules.some((r) => r.rule.senderPolicy?.requireAuth?.length);
+  return { address, auth: auth && needed ? await authenticateSender(mail, raw, auth) : {} };
+}
+
+// Why the account and global settings refuse the sender, or null. The account's
+// allow list replaces the global one; deny lists add up.
+function senderRejection(sender: SenderContext, account: ImapAccount): string | null {
+  const allow = account.allowedSenders ?? config.allowedSenders;
+  const deny = [...(config.deniedSenders || []), ...(account.deniedSenders || [])];
+  return senderListFailure(sender.address, allow, deny) || authFailure(config.senderAuth?.require, sender);
+}
+
+function newTask(mail: ParsedMail, raw: Buffer, account: string, folder: string, matchedTags: string[], recipients: string[]): ForwardTask {
+  return {
+    id: ++taskId,
+    timestamp: new Date().toISOString(),
+    subject: mail.subject || "(no subject)",
+    from: mail.from?.text || "unknown",
+    matchedTags,
+    recipients,
+    account,
+    folder,
+    status: "success",
+    messageId: mail.messageId,
+    size: raw.length,
+    attachments: taskAttachments(mail),
+  };
+}
+
+// Record a message that will not be forwarded as a rejected (sender policy) or
+// suppressed (loop, rate limit) task; rules are those it matched, if any
+function refuseEmail(
+  mail: ParsedMail,
+  raw: Buffer,
+  account: string,
+  folder: string,
+  status: "rejected" | "suppressed",
+  reason: string,
+  rules: string[],
+  startTime: number
+): ProcessResult {
+  const task = newTask(mail, raw, account, folder, rules, []);
+  task.status = status;
+  task.error = reason;
+  task.duration = Date.now() - startTime;
+  log("WARN", `${status === "rejected" ? "Rejected" : "Suppressed"}: ${task.subject} - ${reason}`);
+  (status === "rejected" ? messagesRejected : messagesSuppressed).inc({ account });
+  storeTask(task);
+  emitWebhook(status === "rejected" ? "rejected_sender" : "suppressed", taskMessage(task), task);
+  saveForwardedId(getMessageId(mail), task.subject);
+  return { outcome: status, rules: [], task };
+}
+
+function heldStatus() {
+  return { limits: rateLimiter.usage(config.rateLimits), messages: heldMessages() };
 }
 
-// Check if sender is allowed
-function isSenderAllowed(email: string): boolean {
-  if (!config.allowedSenders?.length) return true;
-  const addr = email.toLowerCase();
-  return config.allowedSenders.some((s) => addr.includes(s.toLowerCase()));
+// Keep a message over a rate limit until processHeld can forward it
+function holdEmail(mail: ParsedMail, raw: Buffer, source: MailSource, reason: string): ProcessResult {
+  const held = holdMessage(
+    {
+      account: source.account.name,
+      folder: source.folder,
+      sender: mail.from?.text || "unknown",
+      subject: mail.subject || "(no subject)",
+      messageId: mail.messageId || null,
+      reason,
+      heldAt: new Date().toISOString(),
+    },
+    raw
+  );
+  log("WARN", `Held #${held.id}: ${held.subject} - ${reason}`);
+  messagesHeld.inc({ account: source.account.name });
+  emitWebhook("held", mailMessage(mail, raw, source));
+  publish("held", heldStatus());
+  return { outcome: "held", rules: [] };
+}
+
+// Loop check, sender lists and authentication, then rule matching
+async function decide(mail: ParsedMail, raw: Buffer, account: ImapAccount): Promise<Decision> {
+  const loop = loopReason(mail, instanceId());
+  if (loop) return { outcome: "suppressed", reason: loop, rules: [] };
+
+  const sender = await senderContext(mail, raw);
+  const rejection = senderRejection(sender, account);
+  if (rejection) return { outcome: "rejected", reason: rejection, rules: [], sender };
+
+  const match = matchRule(mail, account, sender);
+  if (!match.rules.length && match.blocked.length) {
+    const reason = match.blocked.map((b) => `${b.rule.label}: ${b.reason}`).join("; ");
+    return { outcome: "rejected", reason, rules: match.blocked.map((b) => b.rule.label), sender, match };
+  }
+  return { outcome: match.rules.length ? "forward" : "noRule", sender, match };
+}
+
+// Keep the raw message so it can be replayed later (see replayDays)
+function saveForReplay(mail: ParsedMail, raw: Buffer, source: MailSource): void {
+  if (!mail.messageId || (config.replayDays ?? DEFAULT_REPLAY_DAYS) === 0) return;
+  saveMessage(
+    {
+      messageId: mail.messageId,
+      account: source.account.name,
+      folder: source.folder,
+      sender: mail.from?.text || "unknown",
+      subject: mail.subject || "(no subject)",
+      receivedAt: new Date().toISOString(),
+    },
+    raw
+  );
 }
 
 // Process incoming email
-async function processEmail(mail: ParsedMail): Promise<void> {
+async function processEmail(mail: ParsedMail, raw: Buffer, source: MailSource, options: ProcessOptions = {}): Promise<ProcessResult> {
   const startTime = Date.now();
   const subject = mail.subject || "(no subject)";
-  const from = mail.from?.text || "unknown";
   const fromAddr = mail.from?.value?.[0]?.address || "";
   const messageId = getMessageId(mail);
   const mailSize = Math.round((mail.text?.length || 0) / 1024) + "KB";
   const attachCount = mail.attachments?.length || 0;
 
-  log("INFO", `New mail: "${subject}" from=${fromAddr} size=${mailSize} attachments=${attachCount}`);
+  const { account, folder } = source;
 
-  if (isAlreadyForwarded(mail)) {
-    log("INFO", `Already forwarded (skip): ${subject}`);
-    return;
+  if (options.release) {
+    log("DEBUG", `Releasing held mail: "${subject}" from=${fromAddr} mailbox=${account.name}/${folder}`);
+  } else if (options.replay) {
+    log("INFO", `Replaying mail: "${subject}" from=${fromAddr} mailbox=${account.name}/${folder}`);
+  } else {
+    log("INFO", `New mail: "${subject}" from=${fromAddr} size=${mailSize} attachments=${attachCount} mailbox=${account.name}/${folder}`);
+    messagesReceived.inc({ account: account.name, folder });
   }
 
-  if (!isSenderAllowed(fromAddr)) {
-    log("WARN", `Sender not allowed: ${fromAddr} - ${subject}`);
-    saveForwardedId(messageId, subject);
-    return;
+  if (!options.replay && isAlreadyForwarded(mail)) {
+    log("INFO", `Already forwarded (skip): ${subject}`);
+    return { outcome: null, rules: [] };
+  }
+  if (!options.release && !options.replay) {
+    saveForReplay(mail, raw, source);
+    emitWebhook("received", mailMessage(mail, raw, source));
   }
 
-  const rule = matchRule(subject);
-
-  if (!rule) {
+  const decision = await decide(mail, raw, account);
+  if ("reason" in decision) {
+    return refuseEmail(mail, raw, account.name, folder, decision.outcome, decision.reason, decision.rules, startTime);
+  }
+  const matched = decision.match;
+  if (decision.outcome === "noRule") {
     log("INFO", `No matching rule for: ${subject}`);
+    messagesUnmatched.inc({ account: account.name });
+    emitWebhook("no_rule", mailMessage(mail, raw, source));
     saveForwardedId(messageId, subject);
-    return;
+    return { outcome: "noRule", rules: [] };
   }
+  const matchedTags = matched.rules.map((r) => r.label);
 
-  const task: ForwardTask = {
-    id: ++taskId,
-    timestamp: new Date().toISOString(),
-    subject,
-    from,
-    matchedTag: rule.tag,
-    recipients: rule.recipients,
-    status: "success",
-  };
+  // Only mail that would go out counts against the limits
+  const limited = options.force || options.replay ? null : rateLimiter.take(fromAddr, config.rateLimits);
+  if (limited) {
+    if (config.rateLimits?.action === "drop") return refuseEmail(mail, raw, account.name, folder, "suppressed", limited, matchedTags, startTime);
+    return options.release ? { outcome: "held", rules: [] } : holdEmail(mail, raw, source, limited);
+  }
+  for (const label of matchedTags) messagesMatched.inc({ rule: label });
 
-  const results = await forwardEmail(mail, rule, fromAddr);
+  for (const b of matched.blocked) log("INFO", `Rule ${b.rule.label} skipped: ${b.reason}`);
+  const task = newTask(mail, raw, account.name, folder, matchedTags, matched.recipients.map((r) => r.email));
+
+  // Recipients claimed by a digest rule wait for the digest; the rest are forwarded now
+  const immediate = matched.recipients.filter((r) => !r.rule.rule.digest);
+  const digested = matched.recipients.filter((r) => r.rule.rule.digest);
+  const delivery: Delivery = { task, mail, raw, immediate, digested, done: new Map(), checkpointed: false };
+  inFlight.add(delivery);
+  let results: RecipientResult[];
+  try {
+    results = immediate.length ? await forwardEmail(mail, raw, { ...matched, recipients: immediate }, fromAddr, task, delivery.done) : [];
+  } finally {
+    inFlight.delete(delivery);
+  }
+  // Shutdown stopped waiting for it and has recorded it already
+  if (delivery.checkpointed) return { outcome: null, rules: [] };
   const duration = Date.now() - startTime;
   const successCount = results.filter((r) => r.success).length;
   const failCount = results.length - successCount;
 
-  if (failCount > 0) {
-    task.status = "failed";
-    task.error = `${failCount}/${results.length} failed`;
-    log("ERROR", `Forward completed: ${subject} - ${successCount}/${results.length} success, ${failCount} failed (${duration}ms)`);
-  } else {
-    log("INFO", `Forward completed: ${subject} - ${successCount}/${results.length} success (${duration}ms)`);
+  task.results = [...results, ...waitingForDigest(digested)];
+  task.duration = duration;
+  if (immediate.length) {
+    messagesForwarded.inc({ outcome: failCount > 0 ? "failed" : "forwarded" });
+    // Failed recipients always go to the retry queue; their final outcome is counted when it settles
+    for (const r of results) recipientDeliveries.inc({ rule: r.rule || "", outcome: r.success ? "success" : "queued" });
+    if (failCount > 0) {
+      log("ERROR", `Forward completed: ${subject} - ${successCount}/${results.length} success, ${failCount} failed (${duration}ms)`);
+      enqueueFailed(task, raw);
+    } else {
+      log("INFO", `Forward completed: ${subject} - ${successCount}/${results.length} success (${duration}ms)`);
+    }
   }
+  updateTaskStatus(task);
   saveForwardedId(messageId, subject);
 
-  tasks.unshift(task);
-  if (tasks.length > 100) tasks.pop();
-  saveTasks();
+  storeTask(task);
+  for (const rule of new Set(digested.map((r) => r.rule))) addToDigest(rule, task, mail, raw);
+  if (!immediate.length) return { outcome: "forwarded", rules: matched.rules, task };
+  emitWebhook(failCount > 0 ? "partially_failed" : "forwarded", taskMessage(task), task);
 
   try {
-    await sendReplyNotification(mail, results, duration);
+    await sendReplyNotification(mail, matched.rules, matchedTags, results, duration);
   } catch (err) {
     log("WARN", `Failed to send reply notification: ${err instanceof Error ? err.message : err}`);
   }
+  return { outcome: failCount > 0 ? "failed" : "forwarded", rules: matched.rules, task };
 }
 
-// IMAP listener
-function startImapListener(): void {
-  const imap = new Imap(config.imap);
+// Placeholder results for recipients that get the message in their rule's digest
+function waitingForDigest(recipients: MatchedRecipient[]): RecipientResult[] {
+  return recipients.map((r) => ({ email: r.email, success: false, attempts: 0, rule: r.rule.label, pending: true, digest: true }));
+}
 
-  imap.once("ready", () => {
-    log("INFO", "IMAP connected");
-    imap.openBox("INBOX", false, (err) => {
-      if (err) {
-        log("ERROR", `Failed to open INBOX: ${err.message}`);
-        return;
-      }
-      log("INFO", "Listening for new emails...");
-    });
-  });
+// Record the forwards shutdown no longer waits for: finished recipients keep their
+// results, the rest go to the retry queue, and the message counts as forwarded so
+// it is not sent again after the restart. A send cut off halfway may be repeated.
+function checkpointDeliveries(): void {
+  for (const d of inFlight) {
+    d.checkpointed = true;
+    const results = d.immediate.map(
+      (r): RecipientResult => d.done.get(r.email) ?? { email: r.email, success: false, attempts: 0, rule: r.rule.label, error: "Interrupted by shutdown" }
+    );
+    d.task.results = [...results, ...waitingForDigest(d.digested)];
+    enqueueFailed(d.task, d.raw);
+    updateTaskStatus(d.task);
+    saveForwardedId(getMessageId(d.mail), d.task.subject);
+    storeTask(d.task);
+    for (const rule of new Set(d.digested.map((r) => r.rule))) addToDigest(rule, d.task, d.mail, d.raw);
+    log("WARN", `Task #${d.task.id} interrupted by shutdown: ${d.done.size}/${d.immediate.length} recipients finished, the rest queued`);
+  }
+  inFlight.clear();
+}
 
-  imap.on("mail", () => {
-    imap.search(["UNSEEN"], (err, results) => {
-      if (err || !results.length) return;
-      const fetch = imap.fetch(results, { bodies: "" });
-      fetch.on("message", (msg) => {
-        let uid: number | undefined;
-        msg.on("attributes", (attrs) => {
-          uid = attrs.uid;
-        });
-        msg.on("body", (stream) => {
-          simpleParser(stream as unknown as Source, async (err, mail) => {
-            if (uid) {
-              imap.addFlags(uid, ["\\Seen"], (e) => {
-                if (e) log("WARN", `Failed to mark as seen (uid=${uid})`);
-              });
-            }
-            if (err) return;
-            await processEmail(mail);
-          });
-        });
-      });
-    });
+// What prepareAttachments would do, without storing anything; links get a placeholder token
+function previewAttachments(rule: CompiledRule, mail: ParsedMail): { prepared: PreparedAttachments; applied: AppliedAttachmentPolicy } | undefined {
+  const policy = rule.rule.attachments;
+  if (!policy) return undefined;
+  const plan = planAttachments(mail.attachments || [], policy);
+  const expiresAt = new Date(Date.now() + (policy.linkExpiryHours ?? DEFAULT_LINK_EXPIRY_HOURS) * 3600 * 1000).toISOString();
+  const applied = appliedPolicy(rule, plan, (a) => {
+    const filename = a.filename || "attachment";
+    return { filename, size: a.size, url: attachmentUrl("dry-run", filename), expiresAt };
   });
+  return { prepared: { attachments: plan.kept, attachmentNotes: applied }, applied };
+}
 
-  imap.on("error", (err: Error) => {
-    log("ERROR", `IMAP error: ${err.message}`);
-    setTimeout(startImapListener, 5000);
-  });
+// A message as it would go out, cut off after PREVIEW_LIMIT bytes
+async function renderMessage(options: nodemailer.SendMailOptions): Promise<string> {
+  const source = ((await previewTransport.sendMail(options)).message as Buffer).toString("utf-8");
+  return source.length > PREVIEW_LIMIT ? `${source.slice(0, PREVIEW_LIMIT)}\n... (${source.length - PREVIEW_LIMIT} more bytes)` : source;
+}
 
-  imap.on("end", () => {
-    log("WARN", "IMAP disconnected, reconnecting...");
-    setTimeout(startImapListener, 5000);
-  });
+// Run a message through the same checks as processEmail and render what would be
+// sent, without sending or recording anything. Rate limits are checked, not counted.
+async function dryRun(mail: ParsedMail, raw: Buffer, source: MailSource): Promise<DryRun> {
+  const result: DryRun = {
+    outcome: "noRule",
+    mailbox: `${source.account.name}/${source.folder}`,
+    message: { subject: mail.subject || "(no subject)", from: mail.from?.text || "unknown", messageId: mail.messageId, size: raw.length, attachments: taskAttachments(mail) },
+    rules: [],
+    blocked: [],
+    recipients: [],
+    messages: [],
+    attachmentPolicy: [],
+    notification: null,
+    notes: [],
+  };
+  if (isAlreadyForwarded(mail)) result.notes.push("Already processed: another copy from the mailbox would be skipped as a duplicate");
 
-  imap.connect();
-}
+  const decision = await decide(mail, raw, source.account);
+  result.sender = decision.sender;
+  result.blocked = (decision.match?.blocked || []).map((b) => ({ rule: b.rule.label, reason: b.reason }));
+  if ("reason" in decision) return { ...result, outcome: decision.outcome, reason: decision.reason, rules: decision.rules };
+  if (decision.outcome === "noRule") return result;
+
+  const match = decision.match;
+  result.rules = match.rules.map((r) => r.label);
+  result.recipients = match.recipients.map((r) => ({ email: r.email, rule: r.rule.label }));
+  const limited = rateLimiter.check(mail.from?.value?.[0]?.address || "", config.rateLimits);
+  if (limited && config.rateLimits?.action === "drop") return { ...result, outcome: "suppressed", reason: limited };
+  result.outcome = limited ? "held" : "forwarded";
+  if (limited) {
+    result.reason = limited;
+    result.notes.push("Held until the rate limit allows; the messages below are what would be sent then");
+  }
+
+  const previews = new Map(match.rules.map((r) => [r.label, previewAttachments(r, mail)]));
+  for (const preview of previews.values()) if (preview) result.attachmentPolicy.push(preview.applied);
+  for (const rule of new Set(match.recipients.filter((r) => r.rule.rule.digest).map((r) => r.rule))) {
+    const waiting = digestItems().filter((i) => i.rule === rule.label);
+    const due = waiting.length ? Math.max(ruleDigestDueAt(rule, waiting), Date.now()) : nextDigestAt(rule.rule.digest!, new Date()).getTime();
+    result.notes.push(`${rule.label}: would join its digest (${waiting.length} waiting), sent ${new Date(due).toISOString()}`);
+  }
+  for (const target of match.recipients) {
+    if (target.rule.rule.digest) continue;
+    const chain = transportChain(target.rule);
+    const transport = availableTransports(chain)[0];
+    if (transport !== chain[0]) result.notes.push(`${target.rule.label}: transport ${chain[0].name} is being skipped after repeated failures, ${transport.name} would be used`);
+    const options = buildForward(mail, raw, target.email, transport, target.rule, previews.get(target.rule.label)?.prepared);
+    result.messages.push({
+      to: target.email,
+      rule: target.rule.label,
+      mode: target.rule.rule.mode || "inline",
+      transport: transport.name,
+      source: await renderMessage(options),
+    });
+  }
+
+  const automated = automatedKind(mail);
+  const results = match.recipients.map((r) => ({ email: r.email, success: true, attempts: 1, rule: r.rule.label }));
+  const notification = automated ? null : replyNotification(mail, match.rules, result.rules, results, 0);
+  if (notification) {
+    const from = transportAddress(availableTransports(transportChain(match.rules[0]))[0]);
+    result.notification = { to: String(notification.to), subject: String(notification.subject), source: await renderMessage({ ...notification, from }) };
+  } else {
+    result.notes.push(automated ? `No notification for ${automated} messages` : "No notification would be sent for a successful forward");
+  }
+  return result;
+}
+
+// Source for a dry run or replay: the named account (its first folder unless one is given), else the first account
+function testSource(accountName?: string, folder?: string): MailSource {
+  const account = accountName ? config.imap.find((a) => a.name === accountName) : config.imap[0];
+  if (!account) throw new Error(`Unknown account "${accountName}"`);
+  return { account, folder: folder || account.folders[0] };
+}
+
+// Saved copy of a message; the angle brackets around the Message-ID are optional
+function findSaved(messageId: string): ReturnType<typeof savedMessage> {
+  const id = messageId.trim().replace(/^<|>$/g, "");
+  return savedMessage(`<${id}>`) || savedMessage(id);
+}
+
+// Run a held message through processing again; true once it is no longer held.
+// Mailbox actions are not applied on release (the "held" action already was).
+async function releaseHeld(msg: HeldMessage, force = false): Promise<boolean> {
+  if (releasing.has(msg.id)) return false;
+  const account = config.imap.find((a) => a.name === msg.account);
+  const raw = heldMessageRaw(msg.id);
+  if (!raw || !account) {
+    if (!account) log("WARN", `Held #${msg.id}: account "${msg.account}" no longer configured`);
+    return false;
+  }
+  releasing.add(msg.id);
+  try {
+    const result = await processEmail(await simpleParser(raw), raw, { account, folder: msg.folder }, { release: true, force });
+    if (result.outcome === "held") return false;
+    deleteHeldMessage(msg.id);
+    publish("held", heldStatus());
+    return true;
+  } finally {
+    releasing.delete(msg.id);
+  }
+}
+
+// Drop a held message for good, recording it as a suppressed task
+async function dropHeld(msg: HeldMessage, by: string): Promise<boolean> {
+  if (releasing.has(msg.id)) return false;
+  const raw = heldMessageRaw(msg.id);
+  if (!raw) return false;
+  refuseEmail(await simpleParser(raw), raw, msg.account, msg.folder, "suppressed", `held message dropped by ${by}`, [], Date.now());
+  deleteHeldMessage(msg.id);
+  publish("held", heldStatus());
+  return true;
+}
+
+// Address part of a held message's stored sender ("Name <a@b.com>" or "a@b.com")
+function heldSenderAddress(msg: HeldMessage): string {
+  return /<([^<>]+)>\s*$/.exec(msg.sender)?.[1] ?? msg.sender;
+}
+
+// Forward held messages, oldest first, as far as the rate limits allow. The limits
+// are checked against the stored sender first, so messages that would only be held
+// again are not loaded, parsed or checked for sender authentication.
+async function processHeld(): Promise<void> {
+  if (heldRunning) return;
+  heldRunning = true;
+  try {
+    for (const msg of heldMessages()) {
+      if (shuttingDown || rateLimiter.globalFull(config.rateLimits)) break;
+      if (rateLimiter.check(heldSenderAddress(msg), config.rateLimits)) continue;
+      try {
+        await releaseHeld(msg);
+      } catch (err) {
+        log("ERROR", `Held #${msg.id} release failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  } finally {
+    heldRunning = false;
+  }
+}
+
+function digestRule(label: string): CompiledRule | undefined {
+  return compiledRules.find((r) => r.label === label && r.rule.digest);
+}
+
+// When a rule's batch is due; retries back off like the retry queue
+function ruleDigestDueAt(rule: CompiledRule, items: DigestItem[]): number {
+  return digestDueAt(rule.rule.digest!, items, digestRetries.get(rule.label)?.nextAttemptAt);
+}
+
+// Every digest rule with its waiting messages, plus batches left by rules that were removed or renamed
+function digestStatus() {
+  const items = digestItems();
+  const labels = new Set([...compiledRules.filter((r) => r.rule.digest).map((r) => r.label), ...items.map((i) => i.rule)]);
+  return [...labels].map((label) => {
+    const rule = digestRule(label);
+    const messages = items.filter((i) => i.rule === label);
+    return {
+      rule: label,
+      digest: rule?.rule.digest ?? null,
+      recipients: rule?.rule.recipients ?? [],
+      messages,
+      dueAt: rule && messages.length ? new Date(Math.max(ruleDigestDueAt(rule, messages), Date.now())).toISOString() : null,
+      lastError: digestRetries.get(label)?.error,
+    };
+  });
+}
+
+// Put a message in a rule's batch; its task stays pending until the digest goes out
+function addToDigest(rule: CompiledRule, task: ForwardTask, mail: ParsedMail, raw: Buffer): void {
+  addDigestItem(
+    {
+      rule: rule.label,
+      taskId: task.id,
+      messageId: mail.messageId || null,
+      sender: mail.from?.text || "unknown",
+      subject: task.subject,
+      attachmentCount: mail.attachments?.length || 0,
+      receivedAt: new Date().toISOString(),
+    },
+    raw
+  );
+  const waiting = digestItems().filter((i) => i.rule === rule.label);
+  const due = ruleDigestDueAt(rule, waiting);
+  log("INFO", `Added to digest ${rule.label}: ${task.subject} (${waiting.length} waiting, due ${due <= Date.now() ? "now" : new Date(due).toISOString()})`);
+  publish("digests", digestStatus());
+  if (due <= Date.now()) processDigests().catch((err) => log("ERROR", `Digest error: ${err instanceof Error ? err.message : err}`));
+}
+
+// Record a digest's outcome (or why it was not sent) on the task of a message in it;
+// the task is reported once nothing of it is pending any more
+function settleDigested(taskId: number, label: string, outcome: RecipientResult[] | string): void {
+  const task = getTask(taskId);
+  if (!task) return;
+  for (const r of task.results || []) {
+    if (!r.digest || !r.pending || r.rule !== label) continue;
+    const sent = typeof outcome === "string" ? undefined : outcome.find((o) => o.email.toLowerCase() === r.email.toLowerCase());
+    if (sent) r.attempts = (r.attempts || 0) + 1;
+    r.transport = sent?.transport;
+    r.error = typeof outcome === "string" ? outcome : sent ? sent.error : `No longer a recipient of ${label}`;
+    // Still waiting: the digest is tried again for this recipient
+    if (sent && !sent.success) continue;
+    r.pending = false;
+    r.success = !!sent?.success;
+  }
+  updateTaskStatus(task);
+  storeTask(task);
+  if (task.status !== "pending") emitWebhook(task.status === "success" ? "forwarded" : "partially_failed", taskMessage(task), task);
+}
+
+// Send a rule's batch, one digest per recipient with the messages that recipient is
+// owed. Messages a recipient did not get are kept for that recipient alone and tried
+// again with the retry queue's backoff; before the regular batch is due only those
+// retries go out, unless everything is asked for (send now).
+async function sendDigest(label: string, everything = false): Promise<boolean> {
+  const rule = digestRule(label);
+  const waiting = digestItems().filter((i) => i.rule === label);
+  if (!rule || !waiting.length || sendingDigests.has(label)) return false;
+  const items = digestItemsToSend(rule.rule.digest!, waiting, Date.now(), everything);
+  if (!items.length) return false;
+  sendingDigests.add(label);
+  try {
+    const raws = new Map(items.map((item) => [item.id, digestItemRaw(item.id)!]));
+    const identity = rule.rule.identity;
+    const headers: [string, string][] = [
+      [LOOP_HEADER, instanceId()],
+      ["Auto-Submitted", "auto-generated"],
+    ];
+    const sends = planDigest(items, rule.rule.recipients).map(({ email, items: owed }) => ({
+      email,
+      batch: owed.map((item) => ({ item, raw: raws.get(item.id)! })),
+    }));
+    log("INFO", `Sending digest ${label}: ${items.length} messages to ${sends.length} recipients`);
+    const results: RecipientResult[] = await Promise.all(
+      sends.map(async ({ email, batch }) => {
+        const subject = `${config.forwardPrefix ? `${config.forwardPrefix} ` : ""}Digest: ${label} (${batch.length} message${batch.length === 1 ? "" : "s"})`;
+        try {
+          const transport = await sendVia(transportChain(rule), (t) => {
+            const message = buildDigestMessage(batch, { from: identity?.from || transportAddress(t), to: email, replyTo: identity?.replyTo, subject, rule: label, headers });
+            return identity?.dkim ? { ...message, dkim: dkimOptions(identity.dkim) } : message;
+          });
+          log("INFO", `  -> ${email}: OK via ${transport}`);
+          return { email, success: true, attempts: 1, rule: label, transport, digest: true };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          log("ERROR", `  -> ${email}: FAILED - ${error}`);
+          return { email, success: false, attempts: 1, rule: label, error, digest: true };
+        }
+      })
+    );
+
+    const failed = results.filter((r) => !r.success);
+    if (failed.length) {
+      const attempts = (digestRetries.get(label)?.attempts || 0) + 1;
+      digestRetries.set(label, { attempts, nextAttemptAt: Date.now() + retryDelay(attempts), error: failed[0].error || "" });
+    } else {
+      digestRetries.delete(label);
+    }
+    const done: number[] = [];
+    for (const { item, owed, missed } of digestLeftovers(items, rule.rule.recipients, failed.map((r) => r.email))) {
+      if (missed.length) setDigestItemRecipients(item.id, missed);
+      else done.push(item.id);
+      settleDigested(item.taskId, label, results.filter((r) => owed.includes(r.email.toLowerCase())));
+    }
+    deleteDigestItems(done);
+
+    digestsSent.inc({ rule: label, outcome: failed.length === results.length ? "failed" : failed.length ? "partial" : "sent" });
+    for (const r of results) recipientDeliveries.inc({ rule: label, outcome: r.success ? "success" : "queued" });
+    if (failed.length) {
+      const next = new Date(digestRetries.get(label)!.nextAttemptAt).toISOString();
+      log("ERROR", `Digest ${label}: ${results.length - failed.length}/${results.length} recipients reached, the rest retried at ${next} - ${failed[0].error}`);
+    } else {
+      log("INFO", `Digest ${label} sent: ${items.length} messages, ${results.length}/${results.length} recipients`);
+    }
+    publish("digests", digestStatus());
+    return !results.length || failed.length < results.length;
+  } finally {
+    sendingDigests.delete(label);
+  }
+}
+
+// Drop a batch without sending it (e.g. its rule was removed); its messages' tasks record that
+function discardDigest(label: string, by: string): boolean {
+  const items = digestItems().filter((i) => i.rule === label);
+  if (!items.length || sendingDigests.has(label)) return false;
+  deleteDigestItems(items.map((i) => i.id));
+  digestRetries.delete(label);
+  log("WARN", `Digest ${label} discarded by ${by}: ${items.length} messages`);
+  for (const taskId of new Set(items.map((i) => i.taskId))) settleDigested(taskId, label, `Digest discarded by ${by}`);
+  publish("digests", digestStatus());
+  return true;
+}
+
+// Send every batch that is due
+async function processDigests(): Promise<void> {
+  if (digestsRunning) return;
+  digestsRunning = true;
+  try {
+    const items = digestItems();
+    for (const rule of compiledRules.filter((r) => r.rule.digest)) {
+      if (shuttingDown) break;
+      const batch = items.filter((i) => i.rule === rule.label);
+      if (!batch.length || ruleDigestDueAt(rule, batch) > Date.now()) continue;
+      try {
+        await sendDigest(rule.label);
+      } catch (err) {
+        log("ERROR", `Digest ${rule.label} failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  } finally {
+    digestsRunning = false;
+  }
+}
+
+// Pick the mailbox action for an outcome: the first matched rule that overrides it, else the global one
+function mailboxActionFor({ outcome, rules }: ProcessResult): MailboxAction | undefined {
+  if (!outcome) return undefined;
+  if (outcome === "forwarded" || outcome === "failed") {
+    const override = rules.map((r) => r.rule.mailboxActions?.[outcome]).find(Boolean);
+    if (override) return override;
+  }
+  return config.mailboxActions?.[outcome];
+}
+
+// Promise wrappers around the callback-style IMAP client
+function searchUids(imap: Imap, criteria: unknown[]): Promise<number[]> {
+  return new Promise((resolve, reject) => imap.search(criteria, (err, uids) => (err ? reject(err) : resolve(uids))));
+}
+
+function addFlags(imap: Imap, uid: number, flags: string[]): Promise<void> {
+  return new Promise((resolve, reject) => imap.addFlags(uid, flags, (err) => (err ? reject(err) : resolve())));
+}
+
+function fetchMessages(imap: Imap, uids: number[]): Promise<{ uid: number; raw: Buffer }[]> {
+  return new Promise((resolve, reject) => {
+    const messages: { uid: number; raw: Buffer }[] = [];
+    const fetch = imap.fetch(uids, { bodies: "" });
+    fetch.on("message", (msg) => {
+      const chunks: Buffer[] = [];
+      let uid = 0;
+      msg.on("attributes", (attrs) => (uid = attrs.uid));
+      msg.on("body", (stream) => stream.on("data", (chunk: Buffer) => chunks.push(chunk)));
+      msg.once("end", () => messages.push({ uid, raw: Buffer.concat(chunks) }));
+    });
+    fetch.once("error", reject);
+    fetch.once("end", () => resolve(messages.sort((a, b) => a.uid - b.uid)));
+  });
+}
+
+function checkpointMailbox(imap: Imap): CheckpointMailbox {
+  return { search: (criteria) => searchUids(imap, criteria), fetch: (uids) => fetchMessages(imap, uids) };
+}
+
+// Set the starting point for a mailbox seen for the first time or after a UIDVALIDITY change
+async function initCheckpoint(listener: MailboxListener, imap: Imap, box: Imap.Box): Promise<void> {
+  const current = checkpoints[listener.key];
+  if (current?.uidValidity === box.uidvalidity) return;
+  if (current) log("WARN", `[${listener.key}] UIDVALIDITY changed (${current.uidValidity} -> ${box.uidvalidity}), resetting checkpoint`);
+  checkpoints[listener.key] = await initialCheckpoint(checkpointMailbox(imap), box);
+  saveCheckpoints();
+  log("INFO", `[${listener.key}] Checkpoint initialized at UID ${checkpoints[listener.key].lastUid}`);
+}
+
+// Parse, process and file one fetched message
+async function handleMessage(listener: MailboxListener, imap: Imap, uid: number, raw: Buffer): Promise<void> {
+  let mail: ParsedMail | null = null;
+  try {
+    mail = await simpleParser(raw);
+  } catch (err) {
+    log("WARN", `[${listener.key}] Skipping unparseable message uid=${uid}: ${err instanceof Error ? err.message : err}`);
+  }
+  const result = mail ? await processEmail(mail, raw, listener) : { outcome: null, rules: [] };
+  await addFlags(imap, uid, ["\\Seen"]).catch(() => log("WARN", `[${listener.key}] Failed to mark as seen (uid=${uid})`));
+  const action = mailboxActionFor(result);
+  if (action) {
+    try {
+      await applyMailboxAction(imap, uid, action);
+      log("INFO", `[${listener.key}] ${result.outcome}: ${describeAction(action)} (uid=${uid})`);
+    } catch (err) {
+      log("WARN", `[${listener.key}] Mailbox action failed (uid=${uid}): ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+// Process every message newer than the checkpoint, in UID order, one at a time per
+// mailbox; \Seen is set and the checkpoint advances only as each one is handled
+async function runCatchUp(listener: MailboxListener, imap: Imap): Promise<void> {
+  const checkpoint = checkpoints[listener.key];
+  const mailbox = checkpointMailbox(imap);
+  const uids = await uidsAfter(checkpoint, mailbox);
+  if (!uids.length) return;
+  log("INFO", `[${listener.key}] ${uids.length} new messages since UID ${checkpoint.lastUid}`);
+  await catchUp(checkpoint, mailbox, uids, {
+    pipeline,
+    key: listener.key,
+    active: () => !listener.stopped && listener.imap === imap,
+    handle: (uid, raw) => handleMessage(listener, imap, uid, raw),
+    save: saveCheckpoints,
+  });
+}
+
+// Serialize catch-up runs per mailbox; triggers during a run queue one more pass
+function scheduleCatchUp(listener: MailboxListener, imap: Imap): void {
+  if (listener.state !== "connected" || listener.imap !== imap || listener.stopped) return;
+  if (listener.busy) {
+    listener.rescan = true;
+    return;
+  }
+  listener.busy = true;
+  (async () => {
+    do {
+      listener.rescan = false;
+      await runCatchUp(listener, imap);
+    } while (listener.rescan && listener.imap === imap);
+  })()
+    .catch((err) => log("ERROR", `[${listener.key}] Catch-up stopped, will retry: ${err instanceof Error ? err.message : err}`))
+    .finally(() => (listener.busy = false));
+}
+
+function setListenerState(listener: MailboxListener, state: MailboxListener["state"]): void {
+  listener.state = state;
+  listener.since = new Date().toISOString();
+  if (state === "connected") listener.downSince = undefined;
+  else listener.downSince ??= Date.now();
+  publish("accounts", accountStatus());
+}
+
+// IMAP listener
+function startImapListener(listener: MailboxListener): void {
+  const { account, folder, key } = listener;
+  const imap = new Imap({ user: account.user, password: account.password, host: account.host, port: account.port, tls: account.tls });
+  listener.imap = imap;
+  setListenerState(listener, "connecting");
+
+  // error and end often fire together; schedule a single reconnect
+  const reconnect = (reason: string) => {
+    setListenerState(listener, "disconnected");
+    clearInterval(listener.pollTimer);
+    if (listener.stopped || listener.retryTimer || listener.imap !== imap) return;
+    log("WARN", `[${key}] IMAP ${reason}, reconnecting...`);
+    listener.retryTimer = setTimeout(() => {
+      listener.retryTimer = undefined;
+      listener.reconnects++;
+      startImapListener(listener);
+    }, 5000);
+  };
+
+  imap.once("ready", () => {
+    log("INFO", `[${key}] IMAP connected`);
+    imap.openBox(folder, false, async (err, box) => {
+      if (err) {
+        listener.lastError = `Failed to open ${folder}: ${err.message}`;
+        log("ERROR", `[${key}] ${listener.lastError}`);
+        imap.end();
+        return;
+      }
+      try {
+        await initCheckpoint(listener, imap, box);
+      } catch (e) {
+        listener.lastError = `Failed to initialize checkpoint: ${e instanceof Error ? e.message : e}`;
+        log("ERROR", `[${key}] ${listener.lastError}`);
+        imap.end();
+        return;
+      }
+      listener.lastError = undefined;
+      setListenerState(listener, "connected");
+      log("INFO", `[${key}] Listening for new emails from UID ${checkpoints[key].lastUid + 1}...`);
+
+      // IDLE is not reliable everywhere; poll as a fallback
+      const poll = (listener.account.pollIntervalSeconds ?? config.pollIntervalSeconds ?? 60) * 1000;
+      if (poll > 0) listener.pollTimer = setInterval(() => scheduleCatchUp(listener, imap), poll);
+      scheduleCatchUp(listener, imap);
+    });
+  });
+
+  imap.on("mail", () => scheduleCatchUp(listener, imap));
+
+  imap.on("error", (err: Error) => {
+    listener.lastError = err.message;
+    log("ERROR", `[${key}] IMAP error: ${err.message}`);
+    reconnect("error");
+  });
+
+  imap.on("end", () => reconnect("disconnected"));
+
+  imap.connect();
+}
+
+function stopImapListener(listener: MailboxListener): void {
+  listener.stopped = true;
+  clearTimeout(listener.retryTimer);
+  clearInterval(listener.pollTimer);
+  listener.imap?.end();
+  log("INFO", `[${listener.key}] IMAP listener stopped`);
+}
+
+// Start, stop or restart folder listeners so they match config.imap
+function syncImapListeners(): void {
+  const wanted = new Map<string, MailSource>();
+  for (const account of config.imap) {
+    for (const folder of account.folders) wanted.set(`${account.name}/${folder}`, { account, folder });
+  }
+  const connection = (a: ImapAccount) => JSON.stringify([a.user, a.password, a.host, a.port, a.tls]);
+
+  for (const [key, listener] of listeners) {
+    const next = wanted.get(key);
+    if (next && connection(next.account) === connection(listener.account)) {
+      listener.account = next.account;
+      continue;
+    }
+    stopImapListener(listener);
+    listeners.delete(key);
+  }
+  for (const [key, source] of wanted) {
+    if (listeners.has(key)) continue;
+    const listener: MailboxListener = {
+      ...source,
+      key,
+      imap: null,
+      state: "connecting",
+      since: new Date().toISOString(),
+      reconnects: 0,
+      busy: false,
+      rescan: false,
+      stopped: false,
+    };
+    listeners.set(key, listener);
+    startImapListener(listener);
+  }
+}
+
+// Per-account connection status for the dashboard
+function accountStatus() {
+  return config.imap.map((account) => ({
+    name: account.name,
+    user: account.user,
+    host: account.host,
+    rules: account.rules,
+    folders: account.folders.map((folder) => {
+      const l = listeners.get(`${account.name}/${folder}`);
+      const checkpoint = checkpoints[`${account.name}/${folder}`];
+      return {
+        folder,
+        state: l?.state || "disconnected",
+        since: l?.since,
+        lastError: l?.lastError,
+        reconnects: l?.reconnects || 0,
+        lastUid: checkpoint?.lastUid,
+      };
+    }),
+  }));
+}
+
+// Verify a transport at most every SMTP_CHECK_INTERVAL; concurrent callers share one check
+const smtpChecks = new Map<string, Promise<SmtpHealth>>();
+function checkSmtp(name: string): Promise<SmtpHealth> {
+  const last = smtpHealth.get(name);
+  if (last && Date.now() - last.checkedAt < SMTP_CHECK_INTERVAL) return Promise.resolve(last);
+  const running = smtpChecks.get(name);
+  if (running) return running;
+  const check = (async (): Promise<SmtpHealth> => {
+    const now = Date.now();
+    let health: SmtpHealth;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        transporters.get(name)!.verify(),
+        new Promise((_, reject) => (timer = setTimeout(() => reject(new Error("SMTP check timed out")), 10 * 1000))),
+      ]);
+      health = { ok: true, checkedAt: now };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      health = { ok: false, checkedAt: now, error, failingSince: last?.ok === false ? last.failingSince : now };
+      log("WARN", `SMTP health check failed for ${name}: ${error}`);
+    } finally {
+      clearTimeout(timer);
+      smtpChecks.delete(name);
+    }
+    smtpHealth.set(name, health);
+    return health;
+  })();
+  smtpChecks.set(name, check);
+  return check;
+}
+
+// ready: every mailbox connected and every SMTP transport reachable now.
+// healthy: no mailbox down and no transport failing for longer than HEALTH_GRACE (reconnects are tolerated).
+async function healthReport(ready: boolean) {
+  const checks = await Promise.all(config.smtp.map((t) => checkSmtp(t.name)));
+  const now = Date.now();
+  const mailboxes = [...listeners.values()].map((l) => ({
+    mailbox: l.key,
+    state: l.state,
+    ok: ready ? l.state === "connected" : !l.downSince || now - l.downSince < HEALTH_GRACE,
+    lastError: l.lastError,
+  }));
+  const transports = config.smtp.map((t, i) => {
+    const smtp = checks[i];
+    const openUntil = circuits.state(t.name).openUntil;
+    return {
+      name: t.name,
+      ok: ready ? smtp.ok : smtp.ok || now - (smtp.failingSince ?? now) < HEALTH_GRACE,
+      reachable: smtp.ok,
+      checkedAt: new Date(smtp.checkedAt).toISOString(),
+      error: smtp.error,
+      skippedUntil: openUntil && openUntil > now ? new Date(openUntil).toISOString() : undefined,
+    };
+  });
+  // Failover keeps mail flowing while every rule's chain (and the default one used
+  // for notifications) still has a working transport; single failures only show in the details
+  const working = new Set(transports.filter((t) => t.ok).map((t) => t.name));
+  const stranded = [undefined, ...compiledRules]
+    .filter((rule) => !transportChain(rule).some((t) => working.has(t.name)))
+    .map((rule) => rule?.label ?? "(default)");
+  const smtpOk = !stranded.length;
+  const { running, waiting } = pipeline.stats();
+  return {
+    // Not ready once shutdown has started, so no new work is routed here
+    status: mailboxes.every((m) => m.ok) && smtpOk && !(ready && shuttingDown) ? "ok" : "fail",
+    imap: mailboxes,
+    smtp: { ok: smtpOk, transports, rulesWithoutTransport: stranded },
+    processing: { running, waiting, shuttingDown },
+  };
+}
+
+// Web auth: without an auth section the dashboard is public and read-only
+function authEnabled(): boolean {
+  return !!(config.auth?.users?.length || config.auth?.tokens?.length);
+}
+
+function resolvePrincipal(req: express.Request): Principal | null {
+  if (!authEnabled()) return { name: "anonymous", role: "viewer" };
+  const auth = config.auth!;
+  const header = req.get("authorization");
+  if (header?.startsWith("Bearer ")) return tokenPrincipal(auth, header.slice(7).trim());
+  const session = parseCookies(req.get("cookie"))[SESSION_COOKIE];
+  return session ? sessionPrincipal(auth, session) : null;
+}
+
+function requireRole(role: Role): express.RequestHandler {
+  return (req, res, next) => {
+    const principal = resolvePrincipal(req);
+    if (!principal) {
+      if (req.path.startsWith("/api/")) res.status(401).json({ error: "Authentication required" });
+      else res.redirect("/login");
+      return;
+    }
+    if (!hasRole(principal, role)) {
+      res.status(403).json({ error: authEnabled() ? `Requires ${role} role` : "Configure auth to enable changes" });
+      return;
+    }
+    res.locals.principal = principal;
+    next();
+  };
+}
+
+const loginHtml = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Mail Exchange - Login</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f3f4f6; min-height: 100vh; padding: 20px; }
+    .container { max-width: 360px; margin: 80px auto 0; background: #fff; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.05); overflow: hidden; }
+    .brand-bar { height: 6px; background: #10B981; }
+    form { padding: 24px 32px 32px; }
+    h1 { font-size: 22px; color: #111827; margin-bottom: 20px; }
+    label { display: block; font-size: 13px; color: #374151; margin-bottom: 4px; }
+    input { width: 100%; padding: 8px 10px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px; margin-bottom: 16px; }
+    button { width: 100%; padding: 10px; background: #10B981; color: #fff; border: none; border-radius: 6px; font-size: 14px; font-weight: 600; cursor: pointer; }
+    .error { color: #DC2626; font-size: 13px; margin-bottom: 12px; min-height: 16px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="brand-bar"></div>
+    <form id="login">
+      <h1>Mail Exchange</h1>
+      <label for="username">Username</label>
+      <input id="username" autocomplete="username" required>
+      <label for="password">Password</label>
+      <input id="password" type="password" autocomplete="current-password" required>
+      <div class="error" id="error"></div>
+      <button type="submit">Sign in</button>
+    </form>
+  </div>
+  <script>
+    document.getElementById('login').addEventListener('submit', e => {
+      e.preventDefault();
+      fetch('/api/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: document.getElementById('username').value, password: document.getElementById('password').value }),
+      }).then(r => r.ok ? (location.href = '/') : r.json().then(d => (document.getElementById('error').textContent = d.error)));
+    });
+  </script>
+</body>
+</html>`;
+
+// Task detail page; the task id is taken from the URL
+const taskHtml = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Mail Exchange - Task</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f3f4f6; min-height: 100vh; padding: 20px; }
+    .container { max-width: 1000px; margin: 0 auto 20px; background: #fff; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.05); overflow: hidden; }
+    .brand-bar { height: 6px; background: #10B981; }
+    .header { padding: 24px 32px; border-bottom: 1px solid #e5e7eb; display: flex; justify-content: space-between; align-items: center; gap: 16px; }
+    .header h1 { font-size: 20px; color: #111827; word-break: break-word; }
+    .header p { color: #6b7280; font-size: 14px; margin-top: 4px; }
+    .header a { color: #1E40AF; text-decoration: none; font-size: 14px; white-space: nowrap; }
+    h2 { font-size: 15px; color: #374151; padding: 16px 32px 8px; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th { padding: 12px 16px; text-align: left; background: #f9fafb; color: #374151; font-weight: 600; border-bottom: 1px solid #e5e7eb; }
+    td { padding: 12px 16px; border-bottom: 1px solid #f0f0f0; color: #374151; vertical-align: top; word-break: break-word; }
+    .meta th { width: 160px; background: none; font-weight: normal; color: #6b7280; border-bottom: 1px solid #f0f0f0; }
+    .tag { display: inline-block; padding: 4px 10px; background: #DBEAFE; color: #1E40AF; border-radius: 12px; font-size: 12px; font-weight: 600; white-space: nowrap; }
+    .badge { display: inline-block; padding: 4px 10px; border-radius: 12px; font-size: 12px; font-weight: 600; white-space: nowrap; }
+    .badge-success { background: #D1FAE5; color: #065F46; }
+    .badge-failed { background: #FEE2E2; color: #991B1B; }
+    .badge-pending { background: #FEF3C7; color: #92400E; }
+    .badge-rejected, .badge-suppressed { background: #E5E7EB; color: #374151; }
+    .actions { margin-top: 6px; display: flex; gap: 6px; }
+    .actions button { padding: 3px 8px; font-size: 12px; border: 1px solid #d1d5db; border-radius: 6px; background: #fff; color: #374151; cursor: pointer; }
+    .error { color: #DC2626; font-size: 12px; margin-top: 4px; }
+    .empty { text-align: center; padding: 48px; color: #9ca3af; }
+    body:not(.is-admin) .admin-only { display: none !important; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="brand-bar" id="brandBar"></div>
+    <div class="header">
+      <div><h1 id="subject">Task</h1><p id="status"></p></div>
+      <a href="/">← Dashboard</a>
+    </div>
+    <table class="meta"><tbody id="meta"></tbody></table>
+  </div>
+  <div class="container">
+    <h2>Recipients</h2>
+    <table>
+      <thead><tr><th>Recipient</th><th>Rule</th><th>Transport</th><th>Attempts</th><th>Status</th></tr></thead>
+      <tbody id="results"></tbody>
+    </table>
+  </div>
+  <script>
+    const id = Number(location.pathname.split('/').pop());
+    const labels = { success: '✓ Success', failed: '✗ Failed', pending: '⟳ Retrying', rejected: '⊘ Rejected', suppressed: '⊘ Suppressed' };
+    function esc(s) {
+      return String(s ?? '').replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+    }
+    function size(bytes) {
+      return bytes >= 1048576 ? (bytes / 1048576).toFixed(1) + ' MB' : bytes >= 1024 ? (bytes / 1024).toFixed(1) + ' KB' : bytes + ' B';
+    }
+    function taskAction(method) {
+      fetch('/api/tasks/' + id + '/retry', { method }).then(r => r.ok || r.json().then(d => alert(d.error)));
+    }
+    function render(t) {
+      document.title = 'Mail Exchange - ' + t.subject;
+      document.getElementById('subject').textContent = t.subject;
+      document.getElementById('brandBar').style.background = t.status === 'success' ? '#10B981' : t.status === 'pending' ? '#F59E0B' : t.status === 'rejected' || t.status === 'suppressed' ? '#6B7280' : '#EF4444';
+      document.getElementById('status').innerHTML = '<span class="badge badge-' + t.status + '">' + labels[t.status] + '</span> ' + esc(t.error || '')
+        + ((t.results || []).some(r => r.pending && !r.digest) ? '<span class="actions admin-only" style="display:inline-flex;margin-left:8px;"><button onclick="taskAction(\\'POST\\')">Retry now</button><button onclick="taskAction(\\'DELETE\\')">Give up</button></span>' : '');
+      const rows = [
+        ['Task', '#' + t.id],
+        ['Received', new Date(t.timestamp).toLocaleString()],
+        ['From', esc(t.from)],
+        ['Mailbox', t.account ? esc(t.account + '/' + t.folder) : '-'],
+        ['Message-ID', t.messageId ? '<code>' + esc(t.messageId) + '</code> <a href="/test?messageId=' + encodeURIComponent(t.messageId) + '">Test against current rules</a>' : '-'],
+        ['Size', t.size !== undefined ? size(t.size) : '-'],
+        ['Matched rules', t.matchedTags.map(tag => '<span class="tag">' + esc(tag) + '</span>').join(' ')],
+        ['Attachments', t.attachments && t.attachments.length ? t.attachments.map(a => esc(a.filename) + ' <small style="color:#6b7280">(' + esc(a.contentType) + ', ' + size(a.size) + ')</small>').join('<br>') : t.attachments ? 'None' : '-'],
+        ['Attachment policy', t.attachmentPolicy ? t.attachmentPolicy.map(p => '<span class="tag">' + esc(p.rule) + '</span> ' + p.kept + ' kept'
+          + p.removed.map(a => '<br>✗ ' + esc(a.filename) + ' <small style="color:#6b7280">(' + esc(a.reason) + ')</small>').join('')
+          + p.linked.map(a => '<br>🔗 <a href="' + esc(a.url) + '">' + esc(a.filename) + '</a> <small style="color:#6b7280">(' + size(a.size) + ', expires ' + new Date(a.expiresAt).toLocaleString() + ')</small>').join('')).join('<br>') : '-'],
+        ['Duration', t.duration !== undefined ? t.duration + ' ms' : '-'],
+      ];
+      document.getElementById('meta').innerHTML = rows.map(([k, v]) => '<tr><th>' + k + '</th><td>' + v + '</td></tr>').join('');
+      const results = t.results || [];
+      document.getElementById('results').innerHTML = results.length ? results.map(r => {
+        const status = r.success ? 'success' : r.pending ? 'pending' : 'failed';
+        return '<tr><td>' + esc(r.email) + '</td><td>' + esc(r.rule || '-') + '</td><td>' + esc(r.transport || '-') + '</td><td>' + (r.attempts ?? 1) + '</td><td><span class="badge badge-' + status + '">' + (r.digest && r.pending ? '◷ Waiting for digest' : labels[status]) + '</span>'
+          + (r.error ? '<div class="error">' + esc(r.error) + '</div>' : '') + '</td></tr>';
+      }).join('') : '<tr><td colspan="5" class="empty">No recipient results recorded</td></tr>';
+    }
+    fetch('/api/me').then(r => r.json()).then(me => me.role === 'admin' && document.body.classList.add('is-admin'));
+    fetch('/api/tasks/' + id).then(r => r.json()).then(t => {
+      if (t.error) return (document.getElementById('subject').textContent = t.error);
+      render(t);
+    });
+    const events = new EventSource('/api/events');
+    events.addEventListener('task', e => {
+      const t = JSON.parse(e.data);
+      if (t.id === id) render(t);
+    });
+  </script>
+</body>
+</html>`;
+
+// Rule tester: dry-run an uploaded .eml or a saved message; ?messageId= runs a replay dry run on load
+const testHtml = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Mail Exchange - Rule Tester</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f3f4f6; min-height: 100vh; padding: 20px; }
+    .container { max-width: 1000px; margin: 0 auto 20px; background: #fff; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.05); overflow: hidden; }
+    .brand-bar { height: 6px; background: #10B981; }
+    .header { padding: 24px 32px; border-bottom: 1px solid #e5e7eb; display: flex; justify-content: space-between; align-items: center; gap: 16px; }
+    .header h1 { font-size: 20px; color: #111827; word-break: break-word; }
+    .header p { color: #6b7280; font-size: 14px; margin-top: 4px; }
+    .header a { color: #1E40AF; text-decoration: none; font-size: 14px; white-space: nowrap; }
+    h2 { font-size: 15px; color: #374151; padding: 16px 32px 8px; }
+    form { display: flex; flex-wrap: wrap; align-items: center; gap: 8px; padding: 8px 32px 16px; }
+    form input, form select { padding: 6px 8px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 13px; }
+    form input[name=messageId] { flex: 1; min-width: 240px; }
+    button { padding: 6px 12px; background: #f3f4f6; color: #374151; border: 1px solid #d1d5db; border-radius: 6px; cursor: pointer; font-size: 13px; }
+    button:hover { background: #e5e7eb; }
+    button.danger { color: #991B1B; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    td { padding: 12px 16px; border-bottom: 1px solid #f0f0f0; color: #374151; vertical-align: top; word-break: break-word; }
+    .meta th { width: 160px; padding: 12px 16px; text-align: left; font-weight: normal; color: #6b7280; border-bottom: 1px solid #f0f0f0; vertical-align: top; }
+    .tag { display: inline-block; padding: 4px 10px; background: #DBEAFE; color: #1E40AF; border-radius: 12px; font-size: 12px; font-weight: 600; white-space: nowrap; }
+    .badge { display: inline-block; padding: 4px 10px; border-radius: 12px; font-size: 12px; font-weight: 600; white-space: nowrap; }
+    .badge-forwarded { background: #D1FAE5; color: #065F46; }
+    .badge-held { background: #FEF3C7; color: #92400E; }
+    .badge-noRule, .badge-rejected, .badge-suppressed { background: #E5E7EB; color: #374151; }
+    details { border-top: 1px solid #f0f0f0; padding: 12px 32px; }
+    summary { cursor: pointer; font-size: 14px; color: #374151; }
+    pre { margin-top: 8px; padding: 12px; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; font-size: 12px; overflow-x: auto; max-height: 480px; white-space: pre-wrap; word-break: break-all; }
+    .error { color: #DC2626; font-size: 13px; padding: 0 32px 16px; }
+    .empty { text-align: center; padding: 48px; color: #9ca3af; }
+    body:not(.is-admin) .admin-only { display: none !important; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="brand-bar"></div>
+    <div class="header">
+      <div><h1>Rule Tester</h1><p>Runs a message through the current rules without sending anything</p></div>
+      <a href="/">← Dashboard</a>
+    </div>
+    <h2>Test an .eml file</h2>
+    <form id="upload" onsubmit="event.preventDefault(); testFile();">
+      <input type="file" name="file" accept=".eml,message/rfc822" required>
+      <select name="mailbox" class="mailboxes"></select>
+      <button type="submit">Test</button>
+    </form>
+    <h2>Replay a received message</h2>
+    <form id="replay" onsubmit="event.preventDefault(); replay(false);">
+      <input name="messageId" placeholder="Message-ID" required>
+      <select name="mailbox" class="mailboxes"></select>
+      <button type="submit">Dry run</button>
+      <button type="button" class="danger admin-only" onclick="replay(true)">Forward for real</button>
+    </form>
+    <div class="error" id="error"></div>
+  </div>
+  <div class="container" id="result" style="display:none;"></div>
+  <script>
+    const labels = { forwarded: '✓ Would be forwarded', held: '⏸ Would be held', noRule: '– No matching rule', rejected: '⊘ Would be rejected', suppressed: '⊘ Would be suppressed' };
+    function esc(s) {
+      return String(s ?? '').replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+    }
+    function size(bytes) {
+      return bytes >= 1048576 ? (bytes / 1048576).toFixed(1) + ' MB' : bytes >= 1024 ? (bytes / 1024).toFixed(1) + ' KB' : bytes + ' B';
+    }
+    function mailboxParams(form) {
+      const value = form.mailbox.value;
+      if (!value) return {};
+      const slash = value.indexOf('/');
+      return { account: value.slice(0, slash), folder: value.slice(slash + 1) };
+    }
+    function showError(message) {
+      document.getElementById('error').textContent = message || '';
+    }
+    function handle(r) {
+      return r.json().then(d => {
+        if (!r.ok) throw new Error(d.error || r.statusText);
+        return d;
+      });
+    }
+    function testFile() {
+      const form = document.getElementById('upload');
+      const file = form.file.files[0];
+      if (!file) return;
+      showError('');
+      fetch('/api/test?' + new URLSearchParams(mailboxParams(form)), { method: 'POST', headers: { 'Content-Type': 'message/rfc822' }, body: file })
+        .then(handle).then(render).catch(err => showError(err.message));
+    }
+    function replay(forward) {
+      const form = document.getElementById('replay');
+      const messageId = form.messageId.value.trim();
+      if (!messageId) return;
+      if (forward && !confirm('Forward this message to the recipients of the current rules?')) return;
+      showError('');
+      fetch('/api/replay', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ messageId, forward, ...mailboxParams(form) }) })
+        .then(handle).then(d => forward ? renderReplayed(d) : render(d)).catch(err => showError(err.message));
+    }
+    function renderReplayed(d) {
+      const el = document.getElementById('result');
+      el.style.display = '';
+      el.innerHTML = '<div class="header"><div><h1>Replayed</h1><p>Outcome: ' + esc(d.outcome) + '</p></div>'
+        + (d.task ? '<a href="/tasks/' + d.task.id + '">Task #' + d.task.id + ' →</a>' : '') + '</div>';
+    }
+    function render(d) {
+      const el = document.getElementById('result');
+      const auth = d.sender && Object.keys(d.sender.auth).length ? Object.entries(d.sender.auth).map(([m, v]) => esc(m.toUpperCase() + ' ' + v)).join(', ') : '-';
+      const rows = [
+        ['Mailbox', esc(d.mailbox)],
+        ['From', esc(d.message.from)],
+        ['Message-ID', d.message.messageId ? '<code>' + esc(d.message.messageId) + '</code>' : '-'],
+        ['Size', size(d.message.size)],
+        ['Sender checks', auth],
+        ['Matched rules', d.rules.length ? d.rules.map(tag => '<span class="tag">' + esc(tag) + '</span>').join(' ') : '-'],
+        ['Skipped rules', d.blocked.length ? d.blocked.map(b => '<span class="tag">' + esc(b.rule) + '</span> ' + esc(b.reason)).join('<br>') : '-'],
+        ['Recipients', d.recipients.length ? d.recipients.map(r => esc(r.email) + ' <small style="color:#6b7280">(' + esc(r.rule) + ')</small>').join('<br>') : '-'],
+        ['Attachments', d.message.attachments.length ? d.message.attachments.map(a => esc(a.filename) + ' <small style="color:#6b7280">(' + esc(a.contentType) + ', ' + size(a.size) + ')</small>').join('<br>') : 'None'],
+        ['Attachment policy', d.attachmentPolicy.length ? d.attachmentPolicy.map(p => '<span class="tag">' + esc(p.rule) + '</span> ' + p.kept + ' kept'
+          + p.removed.map(a => '<br>✗ ' + esc(a.filename) + ' <small style="color:#6b7280">(' + esc(a.reason) + ')</small>').join('')
+          + p.linked.map(a => '<br>🔗 ' + esc(a.filename) + ' <small style="color:#6b7280">(' + size(a.size) + ', linked)</small>').join('')).join('<br>') : '-'],
+        ['Notes', d.notes.length ? d.notes.map(esc).join('<br>') : '-'],
+      ];
+      const messages = d.messages.map(m => '<details><summary>To ' + esc(m.to) + ' <small style="color:#6b7280">(' + esc(m.rule) + ', ' + esc(m.mode) + ', via ' + esc(m.transport) + ')</small></summary><pre>' + esc(m.source) + '</pre></details>').join('');
+      const notification = d.notification ? '<details><summary>Notification to ' + esc(d.notification.to) + ': ' + esc(d.notification.subject) + '</summary><pre>' + esc(d.notification.source) + '</pre></details>' : '';
+      el.style.display = '';
+      el.innerHTML = '<div class="header"><div><h1>' + esc(d.message.subject) + '</h1><p><span class="badge badge-' + d.outcome + '">' + labels[d.outcome] + '</span> ' + esc(d.reason || '') + '</p></div></div>'
+        + '<table class="meta"><tbody>' + rows.map(([k, v]) => '<tr><th>' + k + '</th><td>' + v + '</td></tr>').join('') + '</tbody></table>'
+        + (messages || notification ? '<h2>Outgoing messages</h2>' + messages + notification : '<div class="empty">Nothing would be sent</div>');
+    }
+    fetch('/api/me').then(r => r.json()).then(me => me.role === 'admin' && document.body.classList.add('is-admin'));
+    fetch('/api/accounts').then(r => r.json()).then(accounts => {
+      const options = accounts.flatMap(a => a.folders.map(f => '<option value="' + esc(a.name + '/' + f.folder) + '">' + esc(a.name + '/' + f.folder) + '</option>')).join('');
+      document.querySelector('#upload .mailboxes').innerHTML = options;
+      document.querySelector('#replay .mailboxes').innerHTML = '<option value="">Original mailbox</option>' + options;
+    });
+    const messageId = new URLSearchParams(location.search).get('messageId');
+    if (messageId) {
+      document.getElementById('replay').messageId.value = messageId;
+      replay(false);
+    }
+  </script>
+</body>
+</html>`;
+
+// Server-sent event streams of open dashboards
+const eventClients = new Set<express.Response>();
+
+function publish(event: string, data: unknown): void {
+  const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const res of eventClients) res.write(payload);
+}
+
+// Persist a task and push it to open dashboards
+function storeTask(task: ForwardTask): void {
+  saveTask(task);
+  publish("task", task);
+}
+
+// Query-string filters for /api/tasks; a date-only `to` includes that whole day
+function parseTaskQuery(query: Record<string, string | undefined>): TaskQuery {
+  const date = (name: string, value: string | undefined, endOfDay = false): string | undefined => {
+    if (!value) return undefined;
+    const d = new Date(value);
+    if (isNaN(d.getTime())) throw new Error(`${name}: invalid date "${value}"`);
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString();
+  };
+  const status = query.status || undefined;
+  if (status && !["success", "failed", "pending", "rejected", "suppressed"].includes(status)) {
+    throw new Error("status: must be success, failed, pending, rejected or suppressed");
+  }
+  const int = (name: string, value: string | undefined): number | undefined => {
+    if (!value) return undefined;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n <= 0) throw new Error(`${name}: must be a positive integer`);
+    return n;
+  };
+  return {
+    since: date("from", query.from),
+    until: date("to", query.to, true),
+    status: status as TaskStatus | undefined,
+    tag: query.tag || undefined,
+    sender: query.sender || undefined,
+    text: query.q || undefined,
+    cursor: int("cursor", query.cursor),
+    limit: int("limit", query.limit),
+  };
+}
 
 // Web server
 function startWebServer(): void {
   const app = express();
+  app.use(express.json());
+
+  if (!authEnabled()) {
+    log("WARN", "Web auth not configured: anyone who can reach the web port can read task history, senders and subjects and test or replay saved messages");
+  }
 
   const html = `<!DOCTYPE html>
 <html>
@@ -353,7 +2491,26 @@ function startWebServer(): void {
     .badge { display: inline-block; padding: 4px 10px; border-radius: 12px; font-size: 12px; font-weight: 600; white-space: nowrap; }
     .badge-success { background: #D1FAE5; color: #065F46; }
     .badge-failed { background: #FEE2E2; color: #991B1B; }
+    .badge-pending { background: #FEF3C7; color: #92400E; }
+    .badge-rejected, .badge-suppressed { background: #E5E7EB; color: #374151; }
+    .badge-connected { background: #D1FAE5; color: #065F46; }
+    .badge-connecting { background: #FEF3C7; color: #92400E; }
+    .badge-disconnected { background: #FEE2E2; color: #991B1B; }
+    .actions { margin-top: 6px; display: flex; gap: 6px; }
+    .actions button { padding: 3px 8px; font-size: 12px; border: 1px solid #d1d5db; border-radius: 6px; background: #fff; color: #374151; cursor: pointer; }
+    .actions button:hover { background: #f3f4f6; }
+    tr.disabled td { opacity: 0.5; }
+    body:not(.is-admin) .admin-only { display: none !important; }
+    .editor { padding: 16px 32px 24px; border-top: 1px solid #e5e7eb; }
+    .editor textarea { width: 100%; font-family: ui-monospace, Menlo, monospace; font-size: 13px; padding: 10px; border: 1px solid #d1d5db; border-radius: 6px; }
     .empty { text-align: center; padding: 48px; color: #9ca3af; }
+    .filters { display: flex; flex-wrap: wrap; gap: 8px; padding: 16px 32px; border-bottom: 1px solid #e5e7eb; }
+    .filters input, .filters select { padding: 6px 8px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 13px; }
+    .more { padding: 16px; text-align: center; }
+    .live { padding: 8px 12px; font-size: 13px; color: #9ca3af; white-space: nowrap; }
+    .live.on { color: #10B981; }
+    td a { color: #1E40AF; text-decoration: none; }
+    td a:hover { text-decoration: underline; }
     @media (max-width: 640px) {
       .stats { grid-template-columns: 1fr; }
       .stat { border-right: none; border-bottom: 1px solid #e5e7eb; }
@@ -365,90 +2522,669 @@ function startWebServer(): void {
   <div class="container">
     <div class="brand-bar" id="brandBar"></div>
     <div class="header">
-      <div><h1>Mail Exchange</h1><p>Forward Tasks Dashboard</p></div>
-      <button class="refresh" onclick="location.reload()">↻ Refresh</button>
+      <div><h1>Mail Exchange</h1><p>Forward Tasks Dashboard <span id="whoami"></span></p></div>
+      <div class="actions">
+        <span class="live" id="live">○ Connecting</span>
+        <button class="refresh" onclick="location.href = '/test'">Rule tester</button>
+        <button class="refresh" id="logout" style="display:none;" onclick="fetch('/api/logout', { method: 'POST' }).then(() => (location.href = '/login'))">Sign out</button>
+      </div>
     </div>
     <div class="stats">
       <div class="stat"><div class="stat-label">Total</div><div class="stat-value" id="total">-</div></div>
       <div class="stat"><div class="stat-label">Success</div><div class="stat-value success" id="success">-</div></div>
       <div class="stat"><div class="stat-label">Failed</div><div class="stat-value failed" id="failed">-</div></div>
     </div>
+    <form class="filters" id="filters" onsubmit="event.preventDefault(); loadTasks(true);">
+      <input type="search" name="q" placeholder="Search subject, sender, recipients">
+      <input type="date" name="from" title="From date">
+      <input type="date" name="to" title="To date">
+      <select name="status"><option value="">Any status</option><option value="success">Success</option><option value="failed">Failed</option><option value="pending">Retrying</option><option value="rejected">Rejected</option><option value="suppressed">Suppressed</option></select>
+      <input name="tag" placeholder="Tag">
+      <input name="sender" placeholder="Sender">
+      <button class="refresh" type="submit">Filter</button>
+    </form>
     <div class="table-wrap">
       <table>
-        <thead><tr><th>Time</th><th>Subject</th><th>From</th><th>Tag</th><th>Recipients</th><th>Status</th></tr></thead>
+        <thead><tr><th>Time</th><th>Subject</th><th>From</th><th>Mailbox</th><th>Tag</th><th>Recipients</th><th>Status</th></tr></thead>
         <tbody id="tasks"></tbody>
       </table>
     </div>
+    <div class="more" id="more" style="display:none;"><button class="refresh" onclick="loadTasks(false)">Load more</button></div>
+  </div>
+  <div class="container" style="margin-top:20px;">
+    <div class="header" style="border-bottom:none;padding-bottom:16px;">
+      <div><h1>Mailboxes</h1><p id="accountCount">-</p></div>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Account</th><th>Server</th><th>Folders</th><th>Rules</th></tr></thead>
+        <tbody id="accounts"></tbody>
+      </table>
+    </div>
+  </div>
+  <div class="container" style="margin-top:20px;">
+    <div class="header" style="border-bottom:none;padding-bottom:16px;">
+      <div><h1>Held Messages</h1><p id="rateLimits">-</p></div>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Held</th><th>Subject</th><th>From</th><th>Mailbox</th><th>Reason</th></tr></thead>
+        <tbody id="held"></tbody>
+      </table>
+    </div>
+  </div>
+  <div class="container" style="margin-top:20px;">
+    <div class="header" style="border-bottom:none;padding-bottom:16px;">
+      <div><h1>Digests</h1><p id="digestCount">-</p></div>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Rule</th><th>Schedule</th><th>Recipients</th><th>Waiting</th><th>Next send</th></tr></thead>
+        <tbody id="digests"></tbody>
+      </table>
+    </div>
+  </div>
+  <div class="container" style="margin-top:20px;">
+    <div class="header" style="border-bottom:none;padding-bottom:16px;">
+      <div><h1>Webhook Deliveries</h1><p>Latest 50 deliveries</p></div>
+    </div>
+    <div class="table-wrap">
+      <table>
+        <thead><tr><th>Time</th><th>Webhook</th><th>Event</th><th>Task</th><th>Status</th></tr></thead>
+        <tbody id="webhooks"></tbody>
+      </table>
+    </div>
   </div>
   <div class="container" style="margin-top:20px;">
     <div class="header" style="border-bottom:none;padding-bottom:16px;">
       <div><h1>Forwarding Rules</h1><p id="ruleCount">-</p></div>
+      <button class="refresh admin-only" onclick="openEditor(null)">+ Add rule</button>
     </div>
     <div class="table-wrap">
       <table>
-        <thead><tr><th>Tag</th><th>Recipients</th></tr></thead>
+        <thead><tr><th>Rule</th><th>Conditions</th><th>Recipients</th><th></th></tr></thead>
         <tbody id="rules"></tbody>
       </table>
     </div>
+    <div class="editor" id="ruleEditor" style="display:none;">
+      <p id="editorTitle" style="font-weight:600;color:#374151;margin-bottom:8px;"></p>
+      <textarea id="ruleJson" rows="12"></textarea>
+      <div class="actions"><button onclick="saveRule()">Save</button><button onclick="closeEditor()">Cancel</button></div>
+    </div>
   </div>
   <script>
-    fetch('/api/tasks').then(r => r.json()).then(data => {
-      const total = data.length;
-      const success = data.filter(t => t.status === 'success').length;
-      const failed = total - success;
+    fetch('/api/me').then(r => r.json()).then(me => {
+      if (me.role === 'admin') document.body.classList.add('is-admin');
+      if (me.authEnabled) {
+        document.getElementById('whoami').textContent = '· ' + me.name + ' (' + me.role + ')';
+        document.getElementById('logout').style.display = '';
+      }
+    });
+    function taskAction(id, method) {
+      fetch('/api/tasks/' + id + '/retry', { method }).then(r => r.ok || r.json().then(d => alert(d.error)));
+    }
+    function esc(s) {
+      return String(s ?? '').replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+    }
+    function taskRow(t) {
+      return \`<tr id="task-\${t.id}">
+        <td>\${new Date(t.timestamp).toLocaleString()}</td>
+        <td><a href="/tasks/\${t.id}">\${esc(t.subject)}</a></td>
+        <td>\${esc(t.from)}</td>
+        <td>\${t.account ? esc(t.account + '/' + t.folder) : '-'}</td>
+        <td>\${t.matchedTags.map(tag => '<span class="tag">' + esc(tag) + '</span>').join(' ')}</td>
+        <td>\${esc(t.recipients.join(', '))}</td>
+        <td><span class="badge badge-\${t.status}">\${{ success: '✓ Success', failed: '✗ Failed', pending: '⟳ Retrying', rejected: '⊘ Rejected', suppressed: '⊘ Suppressed' }[t.status]}</span>\${t.error ? '<br><small style="color:#DC2626">' + esc(t.error) + '</small>' : ''}\${t.status === 'pending' ? \`<div class="actions admin-only"><button onclick="taskAction(\${t.id}, 'POST')">Retry now</button><button onclick="taskAction(\${t.id}, 'DELETE')">Give up</button></div>\` : ''}</td>
+      </tr>\`;
+    }
+    function renderStats({ total, success, failed }) {
       document.getElementById('total').textContent = total;
       document.getElementById('success').textContent = success;
       const failedEl = document.getElementById('failed');
       failedEl.textContent = failed;
       failedEl.className = 'stat-value ' + (failed > 0 ? 'failed' : 'zero');
       document.getElementById('brandBar').style.background = failed > 0 ? '#F59E0B' : '#10B981';
-      const tbody = document.getElementById('tasks');
-      if (!total) {
-        tbody.innerHTML = '<tr><td colspan="6" class="empty">No forwarding tasks yet</td></tr>';
-        return;
-      }
-      tbody.innerHTML = data.map(t => \`<tr>
-        <td>\${new Date(t.timestamp).toLocaleString()}</td>
-        <td>\${t.subject}</td>
-        <td>\${t.from}</td>
-        <td><span class="tag">\${t.matchedTag}</span></td>
-        <td>\${t.recipients.join(', ')}</td>
-        <td><span class="badge badge-\${t.status}">\${t.status === 'success' ? '✓ Success' : '✗ Failed'}</span>\${t.error ? '<br><small style="color:#DC2626">' + t.error + '</small>' : ''}</td>
+    }
+    let nextCursor = null;
+    function taskParams() {
+      const params = new URLSearchParams();
+      for (const [k, v] of new FormData(document.getElementById('filters'))) if (v) params.set(k, v);
+      return params;
+    }
+    function loadTasks(reset) {
+      const params = taskParams();
+      if (!reset && nextCursor) params.set('cursor', nextCursor);
+      fetch('/api/tasks?' + params).then(r => r.json()).then(page => {
+        if (page.error) return alert(page.error);
+        renderStats(page.stats);
+        nextCursor = page.nextCursor;
+        document.getElementById('more').style.display = nextCursor ? '' : 'none';
+        const tbody = document.getElementById('tasks');
+        if (!page.stats.total) {
+          tbody.innerHTML = '<tr><td colspan="7" class="empty">No forwarding tasks found</td></tr>';
+          return;
+        }
+        const rows = page.tasks.map(taskRow).join('');
+        if (reset) tbody.innerHTML = rows;
+        else tbody.insertAdjacentHTML('beforeend', rows);
+      });
+    }
+    loadTasks(true);
+    function renderAccounts(accounts) {
+      document.getElementById('accountCount').textContent = accounts.length + ' accounts configured';
+      document.getElementById('accounts').innerHTML = accounts.map(a => \`<tr>
+        <td><span class="tag">\${esc(a.name)}</span></td>
+        <td>\${esc(a.user)}@\${esc(a.host)}</td>
+        <td>\${a.folders.map(f => '<span class="badge badge-' + f.state + '" title="' + esc(f.lastError || f.state + ' since ' + new Date(f.since).toLocaleString()) + '">' + esc(f.folder) + ' · ' + f.state + (f.reconnects ? ' (' + f.reconnects + ' reconnects)' : '') + '</span>').join(' ')}</td>
+        <td>\${a.rules ? esc(a.rules.join(', ')) : 'all'}</td>
       </tr>\`).join('');
+    }
+    fetch('/api/accounts').then(r => r.json()).then(renderAccounts);
+    // Live updates: changed rows are replaced in place, new tasks reload the first page
+    const events = new EventSource('/api/events');
+    const live = document.getElementById('live');
+    events.onopen = () => { live.textContent = '● Live'; live.className = 'live on'; };
+    events.onerror = () => { live.textContent = '○ Reconnecting'; live.className = 'live'; };
+    let refreshTimer = null;
+    events.addEventListener('task', e => {
+      const task = JSON.parse(e.data);
+      const row = document.getElementById('task-' + task.id);
+      if (row) row.outerHTML = taskRow(task);
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => {
+        if (!row) return loadTasks(true);
+        const params = taskParams();
+        params.set('limit', '1');
+        fetch('/api/tasks?' + params).then(r => r.json()).then(page => page.stats && renderStats(page.stats));
+        fetch('/api/held').then(r => r.json()).then(renderHeld);
+      }, 500);
     });
-    fetch('/api/rules').then(r => r.json()).then(rules => {
+    events.addEventListener('accounts', e => renderAccounts(JSON.parse(e.data)));
+    function renderHeld({ limits, messages }) {
+      const parts = [];
+      if (limits.global) parts.push('Global ' + limits.global.count + ' / ' + limits.global.max + ' per ' + limits.global.windowMinutes + ' min');
+      if (limits.windowMinutes) parts.push(limits.senders.length ? 'Busiest senders: ' + limits.senders.slice(0, 3).map(s => esc(s.address) + ' ' + s.count + '/' + s.max).join(', ') : 'No sender near its limit');
+      document.getElementById('rateLimits').innerHTML = (parts.length ? parts.join(' · ') : 'No rate limits configured') + ' · ' + messages.length + ' held';
+      document.getElementById('held').innerHTML = messages.length ? messages.map(m => \`<tr>
+        <td>\${new Date(m.heldAt).toLocaleString()}</td>
+        <td>\${esc(m.subject)}</td>
+        <td>\${esc(m.sender)}</td>
+        <td>\${esc(m.account + '/' + m.folder)}</td>
+        <td><small style="color:#92400E">\${esc(m.reason)}</small><div class="actions admin-only"><button onclick="heldAction(\${m.id}, 'POST')">Release</button><button onclick="heldAction(\${m.id}, 'DELETE')">Drop</button></div></td>
+      </tr>\`).join('') : '<tr><td colspan="5" class="empty">No held messages</td></tr>';
+    }
+    function heldAction(id, method) {
+      fetch('/api/held/' + id + (method === 'POST' ? '/release' : ''), { method }).then(r => r.json().then(d => r.ok ? renderHeld(d) : alert(d.error)));
+    }
+    fetch('/api/held').then(r => r.json()).then(renderHeld);
+    events.addEventListener('held', e => renderHeld(JSON.parse(e.data)));
+    function digestSchedule(d) {
+      if (!d) return '<small style="color:#92400E">Rule removed or renamed</small>';
+      return (d.schedule === 'daily' ? 'Daily at ' + esc(d.at || '09:00') : 'Hourly') + (d.maxMessages ? ' <small style="color:#6b7280">(or at ' + d.maxMessages + ' messages)</small>' : '');
+    }
+    function renderDigests(list) {
+      const waiting = list.reduce((n, b) => n + b.messages.length, 0);
+      document.getElementById('digestCount').textContent = list.length ? waiting + ' messages waiting' : 'No digest rules configured';
+      document.getElementById('digests').innerHTML = list.length ? list.map(b => \`<tr>
+        <td>\${esc(b.rule)}</td>
+        <td>\${digestSchedule(b.digest)}</td>
+        <td>\${b.recipients.map(esc).join('<br>') || '-'}</td>
+        <td>\${b.messages.length ? '<details><summary>' + b.messages.length + '</summary>' + b.messages.map(m => '<div><small>' + esc(m.subject) + ' · ' + esc(m.sender) + '</small></div>').join('') + '</details>' : '0'}</td>
+        <td>\${b.dueAt ? new Date(b.dueAt).toLocaleString() : '-'}\${b.lastError ? '<div><small style="color:#92400E">' + esc(b.lastError) + '</small></div>' : ''}
+          \${b.messages.length ? '<div class="actions admin-only">' + (b.digest ? '<button data-rule="' + esc(b.rule) + '" onclick="digestAction(this.dataset.rule, \\'POST\\')">Send now</button>' : '') + '<button data-rule="' + esc(b.rule) + '" onclick="digestAction(this.dataset.rule, \\'DELETE\\')">Discard</button></div>' : ''}</td>
+      </tr>\`).join('') : '<tr><td colspan="5" class="empty">No digest rules configured</td></tr>';
+    }
+    function digestAction(rule, method) {
+      if (method === 'DELETE' && !confirm('Discard the waiting messages of ' + rule + '? They will not be forwarded.')) return;
+      fetch('/api/digests/' + encodeURIComponent(rule) + (method === 'POST' ? '/send' : ''), { method }).then(r => r.json().then(d => r.ok ? renderDigests(d) : alert(d.error)));
+    }
+    fetch('/api/digests').then(r => r.json()).then(renderDigests);
+    events.addEventListener('digests', e => renderDigests(JSON.parse(e.data)));
+    function webhookRow(d) {
+      const badge = { delivered: 'success', failed: 'failed', pending: 'pending' }[d.status];
+      const detail = (d.responseStatus ? 'HTTP ' + d.responseStatus + ' · ' : '') + d.attempts + ' attempts' + (d.status === 'pending' ? ' · next ' + new Date(d.nextAttemptAt).toLocaleTimeString() : '');
+      return \`<tr id="webhook-\${d.id}">
+        <td>\${new Date(d.createdAt).toLocaleString()}</td>
+        <td><span class="tag">\${esc(d.webhook)}</span></td>
+        <td>\${d.event}</td>
+        <td>\${d.taskId ? '<a href="/tasks/' + d.taskId + '">#' + d.taskId + '</a>' : '-'}</td>
+        <td><span class="badge badge-\${badge}">\${d.status}</span> <small style="color:#6b7280">\${detail}</small>\${d.error ? '<br><small style="color:#DC2626">' + esc(d.error) + '</small>' : ''}\${d.status === 'failed' ? \`<div class="actions admin-only"><button onclick="redeliver('\${d.id}')">Redeliver</button></div>\` : ''}</td>
+      </tr>\`;
+    }
+    function redeliver(id) {
+      fetch('/api/webhooks/deliveries/' + id + '/retry', { method: 'POST' }).then(r => r.ok || r.json().then(d => alert(d.error)));
+    }
+    fetch('/api/webhooks/deliveries').then(r => r.json()).then(list => {
+      document.getElementById('webhooks').innerHTML = list.length ? list.map(webhookRow).join('') : '<tr><td colspan="5" class="empty">No webhook deliveries yet</td></tr>';
+    });
+    events.addEventListener('webhook', e => {
+      const d = JSON.parse(e.data);
+      const row = document.getElementById('webhook-' + d.id);
+      if (row) return (row.outerHTML = webhookRow(d));
+      const tbody = document.getElementById('webhooks');
+      if (tbody.querySelector('.empty')) tbody.innerHTML = '';
+      tbody.insertAdjacentHTML('afterbegin', webhookRow(d));
+    });
+    let rules = [];
+    let editing = null;
+    function ruleRequest(method, path, body) {
+      fetch('/api/rules' + path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }).then(r => r.json().then(data => {
+        if (!r.ok) throw new Error(data.error);
+        location.reload();
+      })).catch(e => alert(e.message));
+    }
+    function openEditor(i) {
+      editing = i;
+      document.getElementById('editorTitle').textContent = i === null ? 'New rule' : 'Edit rule #' + (i + 1);
+      document.getElementById('ruleJson').value = JSON.stringify(i === null ? { tag: '', recipients: [] } : rules[i], null, 2);
+      document.getElementById('ruleEditor').style.display = 'block';
+    }
+    function closeEditor() {
+      document.getElementById('ruleEditor').style.display = 'none';
+    }
+    function saveRule() {
+      let rule;
+      try { rule = JSON.parse(document.getElementById('ruleJson').value); } catch (e) { return alert('Invalid JSON: ' + e.message); }
+      if (editing === null) ruleRequest('POST', '', rule);
+      else ruleRequest('PUT', '/' + editing, rule);
+    }
+    function toggleRule(i) {
+      ruleRequest('PUT', '/' + i, Object.assign({}, rules[i], { enabled: rules[i].enabled === false }));
+    }
+    function removeRule(i) {
+      if (confirm('Delete rule #' + (i + 1) + '?')) ruleRequest('DELETE', '/' + i);
+    }
+    fetch('/api/rules').then(r => r.json()).then(data => {
+      rules = data;
       document.getElementById('ruleCount').textContent = rules.length + ' rules configured';
-      document.getElementById('rules').innerHTML = rules.map(r => \`<tr>
-        <td><span class="tag">\${r.tag}</span></td>
-        <td>\${r.recipients.join(', ')}</td>
+      document.getElementById('rules').innerHTML = rules.map((r, i) => \`<tr class="\${r.enabled === false ? 'disabled' : ''}">
+        <td><span class="tag">\${esc(r.name || r.tag || 'rule #' + (i + 1))}</span></td>
+        <td><code style="font-size:12px;color:#6b7280">\${esc([r.tag ? 'subject contains ' + r.tag : '', r.match ? JSON.stringify(r.match) : ''].filter(Boolean).join(' AND '))}</code></td>
+        <td>\${esc(r.recipients.join(', '))}</td>
+        <td><div class="actions admin-only">
+          <button onclick="ruleRequest('POST', '/\${i}/move', { to: \${i - 1} })" \${i === 0 ? 'disabled' : ''}>↑</button>
+          <button onclick="ruleRequest('POST', '/\${i}/move', { to: \${i + 1} })" \${i === rules.length - 1 ? 'disabled' : ''}>↓</button>
+          <button onclick="openEditor(\${i})">Edit</button>
+          <button onclick="toggleRule(\${i})">\${r.enabled === false ? 'Enable' : 'Disable'}</button>
+          <button onclick="removeRule(\${i})">Delete</button>
+        </div></td>
       </tr>\`).join('');
     });
   </script>
 </body>
 </html>`;
 
-  app.get("/", (_, res) => res.send(html));
-  app.get("/api/tasks", (_, res) => res.json(tasks));
-  app.get("/api/rules", (_, res) => res.json(config.rules));
+  const viewer = requireRole("viewer");
+  const admin = requireRole("admin");
+
+  // Health endpoints are public for container checks; details only for viewers
+  const health = (ready: boolean): express.RequestHandler => async (req, res) => {
+    try {
+      const report = await healthReport(ready);
+      res.status(report.status === "ok" ? 200 : 503);
+      res.json(resolvePrincipal(req) ? report : { status: report.status });
+    } catch (err) {
+      log("ERROR", `Health check failed: ${(err as Error).message}`);
+      res.status(503).json({ status: "error" });
+    }
+  };
+  app.get("/healthz", health(false));
+  app.get("/readyz", health(true));
+  app.get("/metrics", viewer, (_, res) => res.type("text/plain; version=0.0.4").send(renderMetrics()));
+
+  app.get("/login", (_, res) => (authEnabled() ? res.send(loginHtml) : res.redirect("/")));
+  app.post("/api/login", (req, res) => {
+    const client = req.ip || "";
+    const wait = loginRetryAfter(client);
+    if (wait) {
+      log("WARN", `Login refused for "${req.body?.username}" from ${req.ip}: too many failed attempts`);
+      res.setHeader("Retry-After", String(wait));
+      return res.status(429).json({ error: `Too many failed logins, try again in ${Math.ceil(wait / 60)} min` });
+    }
+    const session = config.auth && login(config.auth, String(req.body?.username || ""), String(req.body?.password || ""));
+    if (!session) {
+      recordLoginFailure(client);
+      log("WARN", `Failed login for "${req.body?.username}" from ${req.ip}`);
+      return res.status(401).json({ error: "Invalid username or password" });
+    }
+    clearLoginFailures(client);
+    log("INFO", `Login: ${req.body.username} from ${req.ip}`);
+    const maxAge = (config.auth?.sessionHours ?? 12) * 3600;
+    res.setHeader("Set-Cookie", `${SESSION_COOKIE}=${session}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAge}`);
+    res.json({ ok: true });
+  });
+  app.post("/api/logout", (req, res) => {
+    const session = parseCookies(req.get("cookie"))[SESSION_COOKIE];
+    if (session) logout(session);
+    res.setHeader("Set-Cookie", `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`);
+    res.json({ ok: true });
+  });
+  app.get("/api/me", viewer, (_, res) => res.json({ ...res.locals.principal, authEnabled: authEnabled() }));
+
+  app.get("/", viewer, (_, res) => res.send(html));
+  app.get("/api/tasks", viewer, (req, res) => {
+    try {
+      res.json(queryTasks(parseTaskQuery(req.query as Record<string, string | undefined>)));
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  app.get("/api/tasks/:id", viewer, (req, res) => {
+    const task = getTask(Number(req.params.id));
+    if (!task) return res.status(404).json({ error: "Task not found" });
+    res.json(task);
+  });
+  app.get("/tasks/:id", viewer, (_, res) => res.send(taskHtml));
+  // Live updates for the dashboard: "task" events carry a full task, "accounts" the mailbox status
+  app.get("/api/events", viewer, (req, res) => {
+    res.set({ "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+    eventClients.add(res);
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25 * 1000);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      eventClients.delete(res);
+    });
+  });
+  app.get("/api/webhooks/deliveries", viewer, (req, res) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    res.json(recentWebhookDeliveries(limit).map(deliverySummary));
+  });
+  app.post("/api/webhooks/deliveries/:id/retry", admin, async (req, res) => {
+    const delivery = await redeliverWebhook(req.params.id);
+    if (!delivery) return res.status(404).json({ error: "No finished delivery with this id" });
+    res.json(deliverySummary(delivery));
+  });
+  // Attachment download links; the unguessable token is the credential
+  app.get("/files/:token/:name?", (req, res) => {
+    const link = getAttachmentLink(req.params.token);
+    const file = `${ATTACHMENT_DIR}/${req.params.token}`;
+    if (!link || !existsSync(file)) return res.status(404).type("text/plain").send("This link has expired or does not exist.");
+    res.type(link.contentType);
+    res.attachment(link.filename);
+    res.set("Cache-Control", "private, no-store");
+    res.sendFile(resolve(file), { cacheControl: false });
+  });
+  app.get("/api/held", viewer, (_, res) => res.json(heldStatus()));
+  const heldAction = (handler: (msg: HeldMessage, req: express.Request, res: express.Response) => Promise<boolean>): express.RequestHandler => async (req, res) => {
+    const msg = heldMessages().find((m) => m.id === Number(req.params.id));
+    if (!msg) return res.status(404).json({ error: "Held message not found" });
+    try {
+      if (!(await handler(msg, req, res))) return res.status(409).json({ error: "Held message is being processed or could not be released" });
+      res.json(heldStatus());
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+  app.post("/api/held/:id/release", admin, heldAction((msg) => releaseHeld(msg, true)));
+  app.delete("/api/held/:id", admin, heldAction((msg, _, res) => dropHeld(msg, res.locals.principal?.name || "admin")));
+  app.get("/api/digests", viewer, (_, res) => res.json(digestStatus()));
+  app.post("/api/digests/:rule/send", admin, async (req, res) => {
+    const label = req.params.rule;
+    if (!digestRule(label)) return res.status(404).json({ error: `No digest rule "${label}"` });
+    if (!digestItems().some((i) => i.rule === label)) return res.status(409).json({ error: "No messages waiting" });
+    log("INFO", `Digest ${label} sent now by ${res.locals.principal?.name || "admin"}`);
+    try {
+      if (!(await sendDigest(label, true))) return res.status(409).json({ error: digestRetries.get(label)?.error || "Digest is being sent" });
+      res.json(digestStatus());
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  app.delete("/api/digests/:rule", admin, (req, res) => {
+    if (!discardDigest(req.params.rule, res.locals.principal?.name || "admin")) return res.status(404).json({ error: "No messages waiting" });
+    res.json(digestStatus());
+  });
+  // Dry runs: an uploaded .eml, or a saved message by Message-ID; forwarding a replay for real needs admin
+  app.get("/test", viewer, (_, res) => res.send(testHtml));
+  app.post("/api/test", viewer, express.raw({ type: () => true, limit: "50mb" }), async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || !req.body.length) return res.status(400).json({ error: "Send the .eml file as the request body" });
+    let source: MailSource;
+    try {
+      source = testSource(req.query.account as string | undefined, req.query.folder as string | undefined);
+    } catch (err) {
+      return res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+    try {
+      res.json(await dryRun(await simpleParser(req.body), req.body, source));
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  app.post("/api/replay", viewer, async (req, res) => {
+    const { messageId, account, folder, forward } = req.body || {};
+    if (typeof messageId !== "string" || !messageId.trim()) return res.status(400).json({ error: "messageId is required" });
+    const principal: Principal = res.locals.principal;
+    if (forward && !hasRole(principal, "admin")) {
+      return res.status(403).json({ error: authEnabled() ? "Requires admin role" : "Configure auth to enable changes" });
+    }
+    const saved = findSaved(messageId);
+    if (!saved) return res.status(404).json({ error: `No saved copy of this message; messages are kept for ${config.replayDays ?? DEFAULT_REPLAY_DAYS} days` });
+    let source: MailSource;
+    try {
+      source = account ? testSource(account, folder) : testSource(saved.message.account, folder || saved.message.folder);
+    } catch (err) {
+      return res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+    try {
+      const mail = await simpleParser(saved.raw);
+      if (!forward) return res.json(await dryRun(mail, saved.raw, source));
+      log("INFO", `Replay of ${saved.message.messageId} requested by ${principal.name}`);
+      const result = await processEmail(mail, saved.raw, source, { replay: true });
+      res.json({ outcome: result.outcome, task: result.task });
+    } catch (err) {
+      res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+  app.get("/api/rules", viewer, (_, res) => res.json(config.rules));
+  app.get("/api/accounts", viewer, (_, res) => res.json(accountStatus()));
+
+  // Rule edits: validated against the whole config before being written
+  const ruleEdit = (handler: (req: express.Request, index: number) => void): express.RequestHandler => (req, res) => {
+    const index = req.params.index === undefined ? -1 : Number(req.params.index);
+    if (req.params.index !== undefined && !(Number.isInteger(index) && index >= 0 && index < config.rules.length)) {
+      res.status(404).json({ error: "Rule not found" });
+      return;
+    }
+    try {
+      handler(req, index);
+      res.json(config.rules);
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+  app.post("/api/rules", admin, ruleEdit((req) => addRule(req.body, req.query.position === undefined ? undefined : Number(req.query.position))));
+  app.put("/api/rules/:index", admin, ruleEdit((req, i) => updateRule(i, req.body)));
+  app.delete("/api/rules/:index", admin, ruleEdit((_, i) => deleteRule(i)));
+  app.post("/api/rules/:index/move", admin, ruleEdit((req, i) => moveRule(i, Number(req.body?.to))));
+  app.post("/api/tasks/:id/retry", admin, async (req, res) => {
+    const id = Number(req.params.id);
+    if (!(await retryTaskNow(id))) return res.status(404).json({ error: "No queued deliveries for this task" });
+    res.json(getTask(id) || { id });
+  });
+  app.delete("/api/tasks/:id/retry", admin, async (req, res) => {
+    const id = Number(req.params.id);
+    if (!(await giveUpTask(id))) return res.status(404).json({ error: "No queued deliveries for this task" });
+    res.json(getTask(id) || { id });
+  });
 
   app.listen(config.webPort, () => {
     console.log(`Web interface: http://localhost:${config.webPort}`);
   });
 }
 
-// Graceful shutdown
-function shutdown(): void {
+// Messages or deliveries still under way
+function busy(): boolean {
+  const { running, waiting } = pipeline.stats();
+  return running + waiting > 0 || inFlight.size > 0 || queueRunning || heldRunning || digestsRunning || webhooksRunning;
+}
+
+// Log out and wait for the server to end the session, at most a few seconds
+function closeImap(listener: MailboxListener): Promise<void> {
+  const imap = listener.imap;
+  if (!imap || listener.state === "disconnected") return Promise.resolve();
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, 5000);
+    imap.once("end", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    imap.end();
+  });
+}
+
+// Graceful shutdown: stop taking mail, give the messages and deliveries under way
+// processing.shutdownTimeoutSeconds to finish, record how far any forward still
+// running got, then log out of IMAP. Messages fetched but not started are left for
+// the next run. A second signal skips the wait.
+async function shutdown(): Promise<void> {
+  if (shuttingDown) {
+    log("WARN", "Shutting down now");
+    checkpointDeliveries();
+    closeHistory();
+    process.exit(1);
+  }
+  shuttingDown = true;
+  const timeout = (config.processing?.shutdownTimeoutSeconds ?? DEFAULT_SHUTDOWN_TIMEOUT_SECONDS) * 1000;
   log("INFO", "Shutting down...");
+  unwatchFile(CONFIG_PATH);
+  for (const timer of timers) clearInterval(timer);
+  pipeline.close();
+  for (const listener of listeners.values()) {
+    listener.stopped = true;
+    clearTimeout(listener.retryTimer);
+    clearInterval(listener.pollTimer);
+  }
+
+  const deadline = Date.now() + timeout;
+  while (busy() && Date.now() < deadline) await new Promise((r) => setTimeout(r, 100));
+  if (busy()) {
+    log("WARN", `Shutdown timeout (${timeout / 1000}s) reached with ${inFlight.size} forwards under way`);
+    checkpointDeliveries();
+  }
+  await Promise.all([...listeners.values()].map(closeImap));
+  log("INFO", "IMAP sessions closed");
+  closeHistory();
+  process.exit(0);
+}
+const onSignal = () => {
+  shutdown().catch((err) => {
+    log("ERROR", `Shutdown failed: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  });
+};
+process.on("SIGTERM", onSignal);
+process.on("SIGINT", onSignal);
+
+// CLI: print a password hash for auth.users[].passwordHash
+if (process.argv[2] === "hash-password") {
+  if (!process.argv[3]) {
+    console.error("Usage: mail-exchange hash-password <password>");
+    process.exit(1);
+  }
+  console.log(hashPassword(process.argv[3]));
   process.exit(0);
 }
-process.on("SIGTERM", shutdown);
-process.on("SIGINT", shutdown);
+
+// CLI output for a dry run
+function formatDryRun(d: DryRun): string {
+  const lines = [
+    `Outcome:     ${d.outcome}${d.reason ? ` - ${d.reason}` : ""}`,
+    `Mailbox:     ${d.mailbox}`,
+    `Subject:     ${d.message.subject}`,
+    `From:        ${d.message.from}`,
+    `Sender auth: ${Object.entries(d.sender?.auth || {}).map(([m, v]) => `${m}=${v}`).join(" ") || "-"}`,
+    `Rules:       ${d.rules.join(", ") || "-"}`,
+    ...d.blocked.map((b) => `Skipped:     ${b.rule} - ${b.reason}`),
+    ...d.recipients.map((r) => `Recipient:   ${r.email} (${r.rule})`),
+    ...d.attachmentPolicy.flatMap((p) => [
+      ...p.removed.map((a) => `Attachment:  ${a.filename} removed by ${p.rule} - ${a.reason}`),
+      ...p.linked.map((a) => `Attachment:  ${a.filename} linked by ${p.rule}`),
+    ]),
+    ...d.notes.map((n) => `Note:        ${n}`),
+  ];
+  for (const m of d.messages) lines.push("", `----- To ${m.to} (${m.rule}, ${m.mode}, via ${m.transport}) -----`, m.source);
+  if (d.notification) lines.push("", `----- Notification to ${d.notification.to} -----`, d.notification.source);
+  return lines.join("\n");
+}
+
+// CLI: dry-run a local .eml file (test) or a saved message (replay) against the rules
+// in the config file. Forwarding a replay for real is done through the running instance.
+async function testCli(args: string[]): Promise<number> {
+  const json = args.includes("--json");
+  const [command, target, mailbox] = args.filter((a) => a !== "--json");
+  if (!target) {
+    console.error(`Usage: mail-exchange ${command} <${command === "test" ? "file.eml" : "message-id"}> [account[/folder]] [--json]`);
+    return 1;
+  }
+  const parsed = parseConfig(readFileSync(CONFIG_PATH, "utf-8"));
+  config = parsed.config;
+  compiledRules = parsed.rules;
+  openHistory(DB_FILE);
+  try {
+    const slash = mailbox ? mailbox.indexOf("/") : -1;
+    const account = slash >= 0 ? mailbox.slice(0, slash) : mailbox;
+    const folder = slash >= 0 ? mailbox.slice(slash + 1) : undefined;
+    let raw: Buffer;
+    let source: MailSource;
+    if (command === "replay") {
+      const saved = findSaved(target);
+      if (!saved) {
+        console.error(`No saved copy of ${target}; messages are kept for ${config.replayDays ?? DEFAULT_REPLAY_DAYS} days`);
+        return 1;
+      }
+      raw = saved.raw;
+      source = account ? testSource(account, folder) : testSource(saved.message.account, saved.message.folder);
+    } else {
+      raw = readFileSync(target);
+      source = testSource(account, folder);
+    }
+    const result = await dryRun(await simpleParser(raw), raw, source);
+    console.log(json ? JSON.stringify(result, null, 2) : formatDryRun(result));
+    return 0;
+  } finally {
+    closeHistory();
+  }
+}
+
+// CLI: probe /healthz of a running instance (used by the Docker healthcheck)
+if (process.argv[2] === "healthcheck") {
+  const port = parseConfig(readFileSync(CONFIG_PATH, "utf-8")).config.webPort;
+  fetch(`http://127.0.0.1:${port}/healthz`, { signal: AbortSignal.timeout(15 * 1000) })
+    .then((res) => process.exit(res.ok ? 0 : 1))
+    .catch(() => process.exit(1));
+} else if (process.argv[2] === "test" || process.argv[2] === "replay") {
+  testCli(process.argv.slice(2))
+    .then((code) => process.exit(code))
+    .catch((err) => {
+      console.error(err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+} else {
+  main();
+}
 
 // Main
-config = loadConfig();
-transporter = nodemailer.createTransport(config.smtp);
-loadForwardedIds();
-loadTasks();
-log("INFO", `Loaded ${config.rules.length} rules, ${forwardedIds.size} forwarded IDs, ${tasks.length} tasks`);
-startWebServer();
-startImapListener();
+function main(): void {
+  config = loadConfig();
+  syncTransports();
+  syncProcessing();
+  loadHistory();
+  loadCheckpoints();
+  log("INFO", `Loaded ${config.imap.length} accounts, ${config.rules.length} rules, ${forwardedCount()} forwarded IDs, ${taskCount()} tasks, ${queuedDeliveryCount()} queued deliveries`);
+  startWebServer();
+  syncImapListeners();
+  watchFile(CONFIG_PATH, { interval: 2000 }, reloadConfig);
+  timers.push(
+    setInterval(cleanupHistory, 3600 * 1000),
+    setInterval(() => processWebhooks().catch((err) => log("ERROR", `Webhook retry error: ${err instanceof Error ? err.message : err}`)), 10 * 1000),
+    setInterval(() => processQueue().catch((err) => log("ERROR", `Retry queue error: ${err instanceof Error ? err.message : err}`)), 30 * 1000),
+    setInterval(() => processHeld().catch((err) => log("ERROR", `Held messages error: ${err instanceof Error ? err.message : err}`)), 30 * 1000),
+    setInterval(() => processDigests().catch((err) => log("ERROR", `Digest error: ${err instanceof Error ? err.message : err}`)), 30 * 1000)
+  );
+}
@@ -0,0 +1,50 @@
+// Loop protection - marks outgoing mail and recognizes loops and automated mail
+
+import { ParsedMail } from "mailparser";
+import { headerValues } from "./rules";
+
+// One line per mail-exchange instance the message passed through
+export const LOOP_HEADER = "X-MailExchange-Loop";
+
+// A chain this long is treated as a loop even if our own id is not in it
+export const MAX_HOPS = 5;
+
+export type AutomatedKind = "bounce" | "auto-reply" | "list";
+
+// Instance ids already stamped on the message, oldest last
+export function loopMarkers(mail: ParsedMail): string[] {
+  return headerValues(mail, LOOP_HEADER).map((v) => v.toLowerCase());
+}
+
+// Why the message looks like it came back to us, or null
+export function loopReason(mail: ParsedMail, instanceId: string): string | null {
+  const markers = loopMarkers(mail);
+  if (markers.includes(instanceId.toLowerCase())) return `mail loop: already forwarded by ${instanceId}`;
+  if (markers.length >= MAX_HOPS) return `mail loop: passed through ${markers.length} forwarders`;
+  return null;
+}
+
+// Headers for a forwarded copy: the incoming chain plus our id. Redirects keep
+// the original headers, so only our own line is added there.
+export function forwardHeaders(mail: ParsedMail, instanceId: string, redirect = false): [string, string][] {
+  const chain = redirect ? [] : loopMarkers(mail);
+  const headers: [string, string][] = [...chain, instanceId].map((id) => [LOOP_HEADER, id]);
+  if (!redirect || !headerValues(mail, "auto-submitted").length) headers.push(["Auto-Submitted", "auto-generated"]);
+  return headers;
+}
+
+// Bounces, vacation/auto replies and mailing list traffic; these never get a notification
+export function automatedKind(mail: ParsedMail): AutomatedKind | null {
+  const header = (name: string) => headerValues(mail, name).join(" ").toLowerCase();
+  const from = (mail.from?.value?.[0]?.address || "").toLowerCase();
+  const returnPath = header("return-path");
+  const contentType = header("content-type");
+
+  if (returnPath === "<>" || /^(mailer-daemon|postmaster)@/.test(from) || /multipart\/report/.test(contentType)) return "bounce";
+  const autoSubmitted = header("auto-submitted");
+  if ((autoSubmitted && autoSubmitted !== "no") || header("x-autoreply") || header("x-autorespond") || /auto_reply/.test(header("precedence"))) {
+    return "auto-reply";
+  }
+  if (header("list-id") || header("list-unsubscribe") || /^(bulk|list|junk)$/.test(header("precedence"))) return "list";
+  return null;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import Imap from "imap";
+import { applyMailboxAction, validateMailboxActions } from "./mailbox-actions";
+
+// Records the IMAP commands an action issues
+function fakeImap(capabilities: string[]) {
+  const calls: string[] = [];
+  const done = (name: string) => (...args: unknown[]) => {
+    calls.push(`${name} ${args.slice(0, -1).map((a) => JSON.stringify(a)).join(" ")}`.trim());
+    (args[args.length - 1] as (err: Error | null) => void)(null);
+  };
+  const imap = {
+    serverSupports: (cap: string) => capabilities.includes(cap),
+    addFlags: done("addFlags"),
+    addKeywords: done("addKeywords"),
+    copy: done("copy"),
+    move: done("move"),
+    expunge: done("expunge"),
+  };
+  return { imap: imap as unknown as Imap, calls };
+}
+
+describe("applyMailboxAction", () => {
+  test("delete expunges only that message with UIDPLUS", async () => {
+    const { imap, calls } = fakeImap(["UIDPLUS"]);
+    await applyMailboxAction(imap, 42, { flags: ["\\Seen"], delete: true });
+    expect(calls).toEqual(['addFlags 42 ["\\\\Seen"]', 'addFlags 42 ["\\\\Deleted"]', "expunge 42"]);
+  });
+
+  test("delete is refused without UIDPLUS and nothing is changed", async () => {
+    const { imap, calls } = fakeImap([]);
+    await expect(applyMailboxAction(imap, 42, { copy: "Archive", delete: true })).rejects.toThrow("UIDPLUS");
+    expect(calls).toEqual([]);
+  });
+
+  test("move does not need UIDPLUS", async () => {
+    const { imap, calls } = fakeImap([]);
+    await applyMailboxAction(imap, 42, { flags: ["$Forwarded"], move: "Forwarded" });
+    expect(calls).toEqual(['addKeywords 42 ["$Forwarded"]', 'move 42 "Forwarded"']);
+  });
+});
+
+describe("validateMailboxActions", () => {
+  test("rejects move with delete, and outcomes a rule cannot override", () => {
+    expect(() => validateMailboxActions({ forwarded: { move: "A", delete: true } }, "mailboxActions")).toThrow(
+      'mailboxActions.forwarded: "move" and "delete" cannot be combined'
+    );
+    expect(() => validateMailboxActions({ noRule: { delete: true } }, "rules[0].mailboxActions", ["forwarded", "failed"])).toThrow(
+      "rules[0].mailboxActions.noRule: outcome must be one of forwarded, failed"
+    );
+  });
+});
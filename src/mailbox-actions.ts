@@ -0,0 +1,88 @@
+// Mailbox actions - what happens to a message in IMAP once it was processed
+
+import Imap from "imap";
+
+export type MailOutcome = "forwarded" | "failed" | "noRule" | "rejected" | "suppressed" | "held";
+
+export interface MailboxAction {
+  // Folder to move the message to (created if missing)
+  move?: string;
+  // Folder to copy the message to (created if missing)
+  copy?: string;
+  // System flags ("\\Flagged") or custom keywords ("$Forwarded")
+  flags?: string[];
+  delete?: boolean;
+}
+
+export type MailboxActions = Partial<Record<MailOutcome, MailboxAction>>;
+
+const OUTCOMES: MailOutcome[] = ["forwarded", "failed", "noRule", "rejected", "suppressed", "held"];
+
+function validateAction(action: MailboxAction, path: string): void {
+  if (!action || typeof action !== "object" || Array.isArray(action)) throw new Error(`${path}: must be an object`);
+  for (const key of ["move", "copy"] as const) {
+    if (action[key] !== undefined && (typeof action[key] !== "string" || !action[key])) {
+      throw new Error(`${path}.${key}: must be a folder name`);
+    }
+  }
+  if (action.flags !== undefined && (!Array.isArray(action.flags) || action.flags.some((f) => typeof f !== "string" || !f))) {
+    throw new Error(`${path}.flags: must be a list of flags or keywords`);
+  }
+  if (action.delete !== undefined && typeof action.delete !== "boolean") throw new Error(`${path}.delete: must be true or false`);
+  if (action.move && action.delete) throw new Error(`${path}: "move" and "delete" cannot be combined`);
+}
+
+// Validate an outcome -> action map; `allowed` narrows the outcomes (rules only see their own)
+export function validateMailboxActions(actions: unknown, path: string, allowed: MailOutcome[] = OUTCOMES): void {
+  if (actions === undefined) return;
+  if (!actions || typeof actions !== "object" || Array.isArray(actions)) throw new Error(`${path}: must be an object`);
+  for (const [outcome, action] of Object.entries(actions)) {
+    if (!allowed.includes(outcome as MailOutcome)) throw new Error(`${path}.${outcome}: outcome must be one of ${allowed.join(", ")}`);
+    validateAction(action as MailboxAction, `${path}.${outcome}`);
+  }
+}
+
+function call(fn: (cb: (err: Error | null) => void) => void): Promise<void> {
+  return new Promise((resolve, reject) => fn((err) => (err ? reject(err) : resolve())));
+}
+
+// Run a copy/move, creating the folder and retrying once if it does not exist
+async function withFolder(imap: Imap, folder: string, op: () => Promise<void>): Promise<void> {
+  try {
+    await op();
+  } catch (err) {
+    await call((cb) => imap.addBox(folder, cb)).catch(() => {
+      throw err;
+    });
+    await op();
+  }
+}
+
+// Apply an action to a message in the currently open box: flags, then copy, then move or delete.
+// Delete needs UID EXPUNGE (UIDPLUS); a plain EXPUNGE would also remove every other \Deleted message in the folder.
+export async function applyMailboxAction(imap: Imap, uid: number, action: MailboxAction): Promise<void> {
+  if (action.delete && !action.move && !imap.serverSupports("UIDPLUS")) {
+    throw new Error("delete requires a server with UIDPLUS; use move to a trash folder instead");
+  }
+  const flags = action.flags || [];
+  const system = flags.filter((f) => f.startsWith("\\"));
+  const keywords = flags.filter((f) => !f.startsWith("\\"));
+  if (system.length) await call((cb) => imap.addFlags(uid, system, cb));
+  if (keywords.length) await call((cb) => imap.addKeywords(uid, keywords, cb));
+  if (action.copy) await withFolder(imap, action.copy, () => call((cb) => imap.copy(uid, action.copy!, cb)));
+  if (action.move) {
+    await withFolder(imap, action.move, () => call((cb) => imap.move(uid, action.move!, cb)));
+  } else if (action.delete) {
+    await call((cb) => imap.addFlags(uid, ["\\Deleted"], cb));
+    await call((cb) => imap.expunge(uid, cb));
+  }
+}
+
+export function describeAction(action: MailboxAction): string {
+  const parts: string[] = [];
+  if (action.flags?.length) parts.push(`flags=${action.flags.join(",")}`);
+  if (action.copy) parts.push(`copy=${action.copy}`);
+  if (action.move) parts.push(`move=${action.move}`);
+  if (action.delete) parts.push("delete");
+  return parts.join(" ");
+}
@@ -0,0 +1,79 @@
+// Prometheus metrics - counters, gauges and histograms rendered in the text exposition format
+
+type Labels = Record<string, string>;
+type Sample = [Labels, number];
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples: () => [string, Labels, number][];
+}
+
+const registry: Metric[] = [];
+
+function key(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+export function counter(name: string, help: string) {
+  const values = new Map<string, Sample>();
+  registry.push({ name, help, type: "counter", samples: () => [...values.values()].map(([l, v]) => [name, l, v]) });
+  return {
+    inc(labels: Labels = {}, n = 1): void {
+      const k = key(labels);
+      const sample = values.get(k);
+      if (sample) sample[1] += n;
+      else values.set(k, [labels, n]);
+    },
+  };
+}
+
+// Gauges (and counters owned by other state) are read from `collect` at scrape time
+export function collected(name: string, help: string, type: "counter" | "gauge", collect: () => Sample[]): void {
+  registry.push({ name, help, type, samples: () => collect().map(([l, v]) => [name, l, v]) });
+}
+
+export function histogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    samples: () =>
+      [...series.values()].flatMap((s) => [
+        ...buckets.map((b, i): [string, Labels, number] => [`${name}_bucket`, { ...s.labels, le: String(b) }, s.counts[i]]),
+        [`${name}_bucket`, { ...s.labels, le: "+Inf" }, s.count] as [string, Labels, number],
+        [`${name}_sum`, s.labels, s.sum] as [string, Labels, number],
+        [`${name}_count`, s.labels, s.count] as [string, Labels, number],
+      ]),
+  });
+  return {
+    observe(labels: Labels, value: number): void {
+      const k = key(labels);
+      let s = series.get(k);
+      if (!s) series.set(k, (s = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }));
+      for (let i = 0; i < buckets.length; i++) if (value <= buckets[i]) s.counts[i]++;
+      s.sum += value;
+      s.count++;
+    },
+  };
+}
+
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const m of registry) {
+    lines.push(`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`);
+    for (const [name, labels, value] of m.samples()) lines.push(`${name}${formatLabels(labels)} ${value}`);
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import { createLimiter, createPipeline, validateProcessing, ProcessingConfig } from "./pipeline";
+
+const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 1));
+
+// A job that records when it starts and finishes and waits until released
+function gate(log: string[], name: string) {
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => (release = resolve));
+  return {
+    job: async () => {
+      log.push(`start ${name}`);
+      await done;
+      log.push(`end ${name}`);
+      return name;
+    },
+    release,
+  };
+}
+
+describe("createLimiter", () => {
+  test("runs at most `limit` jobs at once, the rest in order", async () => {
+    const log: string[] = [];
+    const limiter = createLimiter(2);
+    const gates = ["a", "b", "c"].map((n) => gate(log, n));
+    const runs = gates.map((g) => limiter.run(g.job));
+    await tick();
+    expect(log).toEqual(["start a", "start b"]);
+    expect(limiter.stats()).toEqual({ active: 2, waiting: 1 });
+    gates[1].release();
+    await tick();
+    expect(log).toEqual(["start a", "start b", "end b", "start c"]);
+    gates[0].release();
+    gates[2].release();
+    expect(await Promise.all(runs)).toEqual(["a", "b", "c"]);
+    expect(limiter.stats()).toEqual({ active: 0, waiting: 0 });
+  });
+
+  test("raising the limit starts waiting jobs", async () => {
+    const log: string[] = [];
+    const limiter = createLimiter(1);
+    const gates = ["a", "b"].map((n) => gate(log, n));
+    gates.forEach((g) => limiter.run(g.job));
+    await tick();
+    expect(log).toEqual(["start a"]);
+    limiter.setLimit(2);
+    await tick();
+    expect(log).toEqual(["start a", "start b"]);
+    gates.forEach((g) => g.release());
+  });
+
+  test("a failing job frees its slot", async () => {
+    const limiter = createLimiter(1);
+    await expect(limiter.run(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    expect(await limiter.run(async () => "next")).toBe("next");
+  });
+});
+
+describe("createPipeline", () => {
+  test("jobs with the same key run in order, other keys alongside", async () => {
+    const log: string[] = [];
+    const pipeline = createPipeline({ concurrency: 4, queueSize: 10 });
+    const a1 = gate(log, "a1");
+    const a2 = gate(log, "a2");
+    const b1 = gate(log, "b1");
+    pipeline.add("inbox-a", a1.job);
+    const second = pipeline.add("inbox-a", a2.job);
+    pipeline.add("inbox-b", b1.job);
+    await tick();
+    expect(log).toEqual(["start a1", "start b1"]);
+    a1.release();
+    await tick();
+    expect(log).toEqual(["start a1", "start b1", "end a1", "start a2"]);
+    a2.release();
+    b1.release();
+    expect(await second).toBe("a2");
+  });
+
+  test("a failed job does not stop the next one for its key", async () => {
+    const pipeline = createPipeline({ concurrency: 1, queueSize: 10 });
+    const failed = pipeline.add("inbox", () => Promise.reject(new Error("boom")));
+    const next = pipeline.add("inbox", async () => "ok");
+    await expect(failed).rejects.toThrow("boom");
+    expect(await next).toBe("ok");
+  });
+
+  test("room waits while the queue is full", async () => {
+    const log: string[] = [];
+    const pipeline = createPipeline({ concurrency: 1, queueSize: 2 });
+    expect(await pipeline.room()).toBe(2);
+    const a = gate(log, "a");
+    const b = gate(log, "b");
+    pipeline.add("x", a.job);
+    pipeline.add("y", b.job);
+    let room: number | undefined;
+    pipeline.room().then((n) => (room = n));
+    await tick();
+    expect(pipeline.stats()).toEqual({ running: 1, waiting: 1 });
+    expect(room).toBeUndefined();
+    a.release();
+    await tick();
+    expect(room).toBe(1);
+    b.release();
+  });
+
+  test("once closed, jobs that have not started are skipped", async () => {
+    const log: string[] = [];
+    const pipeline = createPipeline({ concurrency: 1, queueSize: 10 });
+    const a = gate(log, "a");
+    const running = pipeline.add("x", a.job);
+    const queued = pipeline.add("y", async () => "ran");
+    await tick();
+    pipeline.close();
+    expect(await pipeline.room()).toBe(0);
+    a.release();
+    expect(await running).toBe("a");
+    expect(await queued).toBeUndefined();
+  });
+});
+
+describe("validateProcessing", () => {
+  test("rejects unknown fields and bad numbers", () => {
+    expect(() => validateProcessing({ concurrency: 2, queueSize: 50, shutdownTimeoutSeconds: 0 })).not.toThrow();
+    expect(() => validateProcessing({ concurrency: 0 })).toThrow("processing.concurrency");
+    expect(() => validateProcessing({ queueSize: 1.5 })).toThrow("processing.queueSize");
+    expect(() => validateProcessing({ shutdownTimeoutSeconds: -1 })).toThrow("processing.shutdownTimeoutSeconds");
+    expect(() => validateProcessing({ workers: 2 } as ProcessingConfig)).toThrow("processing.workers: unknown field");
+  });
+});
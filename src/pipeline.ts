@@ -0,0 +1,124 @@
+// Processing pipeline - bounded intake, ordered per mailbox, limited concurrency
+
+export interface ProcessingConfig {
+  // Messages processed at once across all mailboxes; each mailbox still goes in UID order
+  concurrency?: number;
+  // Messages fetched and not yet processed, across all mailboxes; fetching waits while full
+  queueSize?: number;
+  // How long shutdown waits for messages and deliveries under way before recording where they stopped
+  shutdownTimeoutSeconds?: number;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_QUEUE_SIZE = 100;
+export const DEFAULT_SHUTDOWN_TIMEOUT_SECONDS = 30;
+
+export function validateProcessing(processing: ProcessingConfig | undefined): void {
+  if (processing === undefined) return;
+  if (!processing || typeof processing !== "object" || Array.isArray(processing)) throw new Error("processing: must be an object");
+  for (const key of Object.keys(processing)) {
+    if (!["concurrency", "queueSize", "shutdownTimeoutSeconds"].includes(key)) throw new Error(`processing.${key}: unknown field`);
+  }
+  for (const key of ["concurrency", "queueSize"] as const) {
+    const value = processing[key];
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) throw new Error(`processing.${key}: must be a positive integer`);
+  }
+  if (processing.shutdownTimeoutSeconds !== undefined && !(processing.shutdownTimeoutSeconds >= 0)) {
+    throw new Error("processing.shutdownTimeoutSeconds: must be 0 or more");
+  }
+}
+
+// At most `limit` jobs at once, the rest wait in order; the limit can change on config reload
+export function createLimiter(limit: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const next = () => {
+    while (active < limit && waiting.length) {
+      active++;
+      waiting.shift()!();
+    }
+  };
+
+  return {
+    async run<T>(job: () => Promise<T>): Promise<T> {
+      await new Promise<void>((resolve) => {
+        waiting.push(resolve);
+        next();
+      });
+      try {
+        return await job();
+      } finally {
+        active--;
+        next();
+      }
+    },
+
+    setLimit(n: number): void {
+      limit = n;
+      next();
+    },
+
+    stats(): { active: number; waiting: number } {
+      return { active, waiting: waiting.length };
+    },
+  };
+}
+
+// Jobs with the same key run one after another in the order they were added; jobs
+// with different keys run side by side up to the concurrency limit. Once closed,
+// jobs that have not started are skipped and resolve to undefined.
+export function createPipeline(options: { concurrency: number; queueSize: number }) {
+  const limiter = createLimiter(options.concurrency);
+  let queueSize = options.queueSize;
+  const tails = new Map<string, Promise<void>>();
+  // Added and not yet finished (or skipped)
+  let pending = 0;
+  let closed = false;
+  const roomWaiters: (() => void)[] = [];
+
+  const wake = () => roomWaiters.splice(0).forEach((resolve) => resolve());
+
+  return {
+    // Wait until the queue has room; returns how many more jobs fit, 0 once closed
+    async room(): Promise<number> {
+      while (!closed && pending >= queueSize) await new Promise<void>((resolve) => roomWaiters.push(resolve));
+      return closed ? 0 : queueSize - pending;
+    },
+
+    add<T>(key: string, job: () => Promise<T>): Promise<T | undefined> {
+      pending++;
+      const run = (tails.get(key) || Promise.resolve()).then(() =>
+        closed ? undefined : limiter.run(() => (closed ? Promise.resolve(undefined) : job()))
+      );
+      const tail: Promise<void> = run
+        .then(
+          () => undefined,
+          () => undefined
+        )
+        .finally(() => {
+          pending--;
+          if (tails.get(key) === tail) tails.delete(key);
+          wake();
+        });
+      tails.set(key, tail);
+      return run;
+    },
+
+    close(): void {
+      closed = true;
+      wake();
+    },
+
+    configure(concurrency: number, size: number): void {
+      limiter.setLimit(concurrency);
+      queueSize = size;
+      wake();
+    },
+
+    stats(): { running: number; waiting: number } {
+      const { active } = limiter.stats();
+      return { running: active, waiting: pending - active };
+    },
+  };
+}
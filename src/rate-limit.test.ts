@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { createRateLimiter, validateRateLimits, RateLimitConfig } from "./rate-limit";
+
+const MINUTE = 60 * 1000;
+
+describe("rate limiter", () => {
+  test("per-sender limits count each sender separately, ignoring case", () => {
+    const limiter = createRateLimiter();
+    const limits: RateLimitConfig = { perSender: { max: 2, windowMinutes: 10 } };
+    expect(limiter.take("alice@example.com", limits, 0)).toBeNull();
+    expect(limiter.take("ALICE@example.com", limits, MINUTE)).toBeNull();
+    expect(limiter.take("alice@example.com", limits, 2 * MINUTE)).toBe("rate limit: alice@example.com sent 2 in 10 min (max 2)");
+    expect(limiter.take("bob@example.com", limits, 2 * MINUTE)).toBeNull();
+  });
+
+  test("the window slides: a slot frees once its message is older than the window", () => {
+    const limiter = createRateLimiter();
+    const limits: RateLimitConfig = { perSender: { max: 2, windowMinutes: 10 } };
+    limiter.take("alice@example.com", limits, 0);
+    limiter.take("alice@example.com", limits, 5 * MINUTE);
+    expect(limiter.check("alice@example.com", limits, 10 * MINUTE - 1)).not.toBeNull();
+    expect(limiter.check("alice@example.com", limits, 10 * MINUTE)).toBeNull();
+    expect(limiter.take("alice@example.com", limits, 10 * MINUTE)).toBeNull();
+    expect(limiter.take("alice@example.com", limits, 11 * MINUTE)).not.toBeNull();
+  });
+
+  test("check records nothing; a refused take records nothing either", () => {
+    const limiter = createRateLimiter();
+    const limits: RateLimitConfig = { perSender: { max: 1, windowMinutes: 10 }, global: { max: 2, windowMinutes: 10 } };
+    for (let i = 0; i < 5; i++) expect(limiter.check("alice@example.com", limits, 0)).toBeNull();
+    expect(limiter.take("alice@example.com", limits, 0)).toBeNull();
+    expect(limiter.take("alice@example.com", limits, 0)).not.toBeNull();
+    expect(limiter.usage(limits, 0).global).toEqual({ count: 1, max: 2, windowMinutes: 10 });
+  });
+
+  test("the global limit covers every sender", () => {
+    const limiter = createRateLimiter();
+    const limits: RateLimitConfig = { global: { max: 2, windowMinutes: 5 } };
+    expect(limiter.take("a@example.com", limits, 0)).toBeNull();
+    expect(limiter.globalFull(limits, 0)).toBe(false);
+    expect(limiter.take("b@example.com", limits, 0)).toBeNull();
+    expect(limiter.globalFull(limits, 0)).toBe(true);
+    expect(limiter.take("c@example.com", limits, MINUTE)).toBe("rate limit: 2 messages in 5 min (max 2)");
+    expect(limiter.globalFull(limits, 5 * MINUTE)).toBe(false);
+    expect(limiter.globalFull(undefined, 0)).toBe(false);
+  });
+
+  test("usage lists senders in the window, busiest first", () => {
+    const limiter = createRateLimiter();
+    const limits: RateLimitConfig = { perSender: { max: 5, windowMinutes: 10 } };
+    limiter.take("a@example.com", limits, 0);
+    limiter.take("b@example.com", limits, 5 * MINUTE);
+    limiter.take("b@example.com", limits, 6 * MINUTE);
+    expect(limiter.usage(limits, 6 * MINUTE).senders).toEqual([
+      { address: "b@example.com", count: 2, max: 5 },
+      { address: "a@example.com", count: 1, max: 5 },
+    ]);
+    expect(limiter.usage(limits, 10 * MINUTE).senders).toEqual([{ address: "b@example.com", count: 2, max: 5 }]);
+  });
+});
+
+describe("validateRateLimits", () => {
+  test("accepts a complete config and rejects bad values", () => {
+    expect(() => validateRateLimits({ perSender: { max: 3, windowMinutes: 1 }, global: { max: 10, windowMinutes: 0.5 }, action: "drop" })).not.toThrow();
+    expect(() => validateRateLimits({ perSender: { max: 0, windowMinutes: 1 } })).toThrow("rateLimits.perSender.max");
+    expect(() => validateRateLimits({ global: { max: 1, windowMinutes: 0 } })).toThrow("rateLimits.global.windowMinutes");
+    expect(() => validateRateLimits({ action: "queue" } as unknown as RateLimitConfig)).toThrow("rateLimits.action");
+  });
+});
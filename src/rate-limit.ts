@@ -0,0 +1,113 @@
+// Rate limits - sliding windows per sender and across all mail
+
+export interface RateLimit {
+  max: number;
+  windowMinutes: number;
+}
+
+export interface RateLimitConfig {
+  perSender?: RateLimit;
+  global?: RateLimit;
+  // What happens to mail over a limit; held mail is forwarded once the window allows
+  action?: "hold" | "drop";
+}
+
+export interface RateLimitUsage {
+  global: { count: number; max: number; windowMinutes: number } | null;
+  // Senders with mail in the per-sender window, busiest first
+  senders: { address: string; count: number; max: number }[];
+  windowMinutes: number | null;
+}
+
+function validateLimit(limit: RateLimit | undefined, path: string): void {
+  if (limit === undefined) return;
+  if (!limit || typeof limit !== "object") throw new Error(`${path}: must be an object`);
+  if (!Number.isInteger(limit.max) || limit.max <= 0) throw new Error(`${path}.max: must be a positive integer`);
+  if (!(limit.windowMinutes > 0)) throw new Error(`${path}.windowMinutes: must be positive`);
+}
+
+export function validateRateLimits(limits: RateLimitConfig | undefined): void {
+  if (limits === undefined) return;
+  if (!limits || typeof limits !== "object" || Array.isArray(limits)) throw new Error("rateLimits: must be an object");
+  validateLimit(limits.perSender, "rateLimits.perSender");
+  validateLimit(limits.global, "rateLimits.global");
+  if (limits.action !== undefined && limits.action !== "hold" && limits.action !== "drop") {
+    throw new Error(`rateLimits.action: must be "hold" or "drop"`);
+  }
+}
+
+// Counts are kept in memory and start over on restart
+export function createRateLimiter() {
+  const global: number[] = [];
+  const senders = new Map<string, number[]>();
+
+  const prune = (times: number[], limit: RateLimit, now: number) => {
+    const cutoff = now - limit.windowMinutes * 60 * 1000;
+    while (times.length && times[0] <= cutoff) times.shift();
+  };
+
+  // Why one more message from this sender would go over a limit, or null; records nothing (dry runs)
+  const check = (sender: string, limits: RateLimitConfig | undefined, now = Date.now()): string | null => {
+    const mine = senders.get(sender.toLowerCase()) || [];
+    if (limits?.perSender) {
+      prune(mine, limits.perSender, now);
+      if (mine.length >= limits.perSender.max) {
+        return `rate limit: ${sender || "(no sender)"} sent ${mine.length} in ${limits.perSender.windowMinutes} min (max ${limits.perSender.max})`;
+      }
+    }
+    if (limits?.global) {
+      prune(global, limits.global, now);
+      if (global.length >= limits.global.max) {
+        return `rate limit: ${global.length} messages in ${limits.global.windowMinutes} min (max ${limits.global.max})`;
+      }
+    }
+    return null;
+  };
+
+  return {
+    check,
+
+    // True while the global window is full, so no message at all can go out yet
+    globalFull(limits: RateLimitConfig | undefined, now = Date.now()): boolean {
+      if (!limits?.global) return false;
+      prune(global, limits.global, now);
+      return global.length >= limits.global.max;
+    },
+
+    // Record one message if both limits allow it; otherwise return why not
+    take(sender: string, limits: RateLimitConfig | undefined, now = Date.now()): string | null {
+      const reason = check(sender, limits, now);
+      if (reason) return reason;
+      const key = sender.toLowerCase();
+      if (limits?.perSender) {
+        senders.set(key, [...(senders.get(key) || []), now]);
+        // Keep the map from growing with one-off senders
+        if (senders.size > 1000) {
+          for (const [address, times] of senders) {
+            prune(times, limits.perSender, now);
+            if (!times.length) senders.delete(address);
+          }
+        }
+      }
+      if (limits?.global) global.push(now);
+      return null;
+    },
+
+    usage(limits: RateLimitConfig | undefined, now = Date.now()): RateLimitUsage {
+      if (limits?.global) prune(global, limits.global, now);
+      const perSender = limits?.perSender;
+      const list: RateLimitUsage["senders"] = [];
+      if (!perSender) senders.clear();
+      for (const [address, times] of senders) {
+        prune(times, perSender!, now);
+        if (!times.length) senders.delete(address);
+        else list.push({ address, count: times.length, max: perSender!.max });
+      }
+      return {
+        global: limits?.global ? { count: global.length, max: limits.global.max, windowMinutes: limits.global.windowMinutes } : null,
+        senders: list.sort((a, b) => b.count - a.count).slice(0, 20),
+        windowMinutes: perSender?.windowMinutes ?? null,
+      };
+    },
+  };
+}
@@ -1,45 +1,267 @@
-// Reply email template - Edit this file to customize the notification
+// Reply email template - built-in locales; DATA_DIR/templates can override strings and layouts
+
+import { readFileSync, existsSync } from "fs";
 
 export interface RecipientResult {
   email: string;
   success: boolean;
   error?: string;
   attempts?: number;
+  // Label of the rule this recipient came from
+  rule?: string;
+  // Still in the durable retry queue
+  pending?: boolean;
+  // SMTP transport that delivered it
+  transport?: string;
+  // Goes out in the rule's digest; pending until the digest is sent
+  digest?: boolean;
 }
 
 export interface ReplyData {
   subject: string;
+  rules: string[];
   results: RecipientResult[];
   duration: number;
   timestamp: string;
 }
 
-export function getReplySubject(data: ReplyData): string {
-  const allSuccess = data.results.every((r) => r.success);
-  return allSuccess ? `[Mail Exchange] 转发成功 - ${data.subject}` : `[Mail Exchange] 部分失败 - ${data.subject}`;
+// always: every report; onFailure: only when a recipient failed or is waiting for retry
+export type NotifyWhen = "always" | "onFailure" | "never";
+
+export interface NotifyPolicy {
+  when?: NotifyWhen;
+  // Send the report here instead of to the original sender
+  to?: string;
+  locale?: string;
+}
+
+// Text for one locale; {{placeholders}} are filled per report
+export interface ReplyStrings {
+  subjectSuccess: string;
+  subjectPending: string;
+  subjectFailed: string;
+  headingSuccess: string;
+  headingPending: string;
+  headingFailed: string;
+  reportTitle: string;
+  originalSubject: string;
+  matchedRules: string;
+  stats: string;
+  total: string;
+  success: string;
+  failed: string;
+  pending: string;
+  details: string;
+  recipient: string;
+  status: string;
+  retriedSuccess: string;
+  retriedFailed: string;
+  unknownError: string;
+  duration: string;
+  completedAt: string;
+}
+
+// Strings plus optional full layouts (<locale>.html / <locale>.txt)
+export interface ReplyLocale {
+  name: string;
+  strings: ReplyStrings;
+  html?: string;
+  text?: string;
+}
+
+export const DEFAULT_LOCALE = "zh";
+const NOTIFY_WHEN: NotifyWhen[] = ["always", "onFailure", "never"];
+
+const BUILTIN: Record<string, ReplyStrings> = {
+  zh: {
+    subjectSuccess: "[Mail Exchange] 转发成功 - {{subject}}",
+    subjectPending: "[Mail Exchange] 等待重试 - {{subject}}",
+    subjectFailed: "[Mail Exchange] 部分失败 - {{subject}}",
+    headingSuccess: "✅ 邮件转发成功",
+    headingPending: "⏳ 部分收件人等待重试",
+    headingFailed: "⚠️ 邮件转发部分失败",
+    reportTitle: "[Mail Exchange] 邮件转发报告",
+    originalSubject: "原始标题",
+    matchedRules: "匹配规则",
+    stats: "统计: 成功 {{success}} / 失败 {{failed}} / 共 {{total}}",
+    total: "总数",
+    success: "成功",
+    failed: "失败",
+    pending: "待重试",
+    details: "发送详情",
+    recipient: "收件人",
+    status: "状态",
+    retriedSuccess: "重试 {{retries}} 次后成功",
+    retriedFailed: "重试 {{retries}} 次后失败",
+    unknownError: "未知",
+    duration: "耗时",
+    completedAt: "完成时间",
+  },
+  en: {
+    subjectSuccess: "[Mail Exchange] Forwarded - {{subject}}",
+    subjectPending: "[Mail Exchange] Waiting for retry - {{subject}}",
+    subjectFailed: "[Mail Exchange] Partially failed - {{subject}}",
+    headingSuccess: "✅ Message forwarded",
+    headingPending: "⏳ Some recipients are waiting for retry",
+    headingFailed: "⚠️ Forwarding partially failed",
+    reportTitle: "[Mail Exchange] Forwarding report",
+    originalSubject: "Original subject",
+    matchedRules: "Matched rules",
+    stats: "Summary: {{success}} delivered / {{failed}} failed / {{total}} total",
+    total: "Total",
+    success: "Delivered",
+    failed: "Failed",
+    pending: "Retrying",
+    details: "Delivery details",
+    recipient: "Recipient",
+    status: "Status",
+    retriedSuccess: "delivered after {{retries}} retries",
+    retriedFailed: "failed after {{retries}} retries",
+    unknownError: "unknown",
+    duration: "Duration",
+    completedAt: "Completed at",
+  },
+  ja: {
+    subjectSuccess: "[Mail Exchange] 転送完了 - {{subject}}",
+    subjectPending: "[Mail Exchange] 再試行待ち - {{subject}}",
+    subjectFailed: "[Mail Exchange] 一部失敗 - {{subject}}",
+    headingSuccess: "✅ メールを転送しました",
+    headingPending: "⏳ 一部の宛先が再試行待ちです",
+    headingFailed: "⚠️ 一部の宛先への転送に失敗しました",
+    reportTitle: "[Mail Exchange] 転送レポート",
+    originalSubject: "元の件名",
+    matchedRules: "一致したルール",
+    stats: "集計: 成功 {{success}} / 失敗 {{failed}} / 合計 {{total}}",
+    total: "合計",
+    success: "成功",
+    failed: "失敗",
+    pending: "再試行待ち",
+    details: "送信詳細",
+    recipient: "宛先",
+    status: "状態",
+    retriedSuccess: "{{retries}} 回の再試行後に成功",
+    retriedFailed: "{{retries}} 回の再試行後に失敗",
+    unknownError: "不明",
+    duration: "所要時間",
+    completedAt: "完了時刻",
+  },
+};
+
+// Reject malformed notification settings; throws with the offending config path
+export function validateNotifyPolicy(policy: unknown, path: string): void {
+  if (policy === undefined) return;
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) throw new Error(`${path}: must be an object`);
+  const p = policy as NotifyPolicy;
+  if (p.when !== undefined && !NOTIFY_WHEN.includes(p.when)) throw new Error(`${path}.when: must be one of ${NOTIFY_WHEN.join(", ")}`);
+  if (p.to !== undefined && (typeof p.to !== "string" || !p.to.includes("@"))) throw new Error(`${path}.to: must be an email address`);
+  if (p.locale !== undefined && (typeof p.locale !== "string" || !/^[\w-]+$/.test(p.locale))) {
+    throw new Error(`${path}.locale: must be a locale name such as "en" (letters, digits, "-" and "_")`);
+  }
+}
+
+// Whether a report should go out under a policy; follow-up reports for retried tasks count as failures
+export function shouldNotify(when: NotifyWhen, results: RecipientResult[], followUp = false): boolean {
+  if (when === "never") return false;
+  if (when === "onFailure") return followUp || results.some((r) => !r.success);
+  return true;
 }
 
-export function getReplyHtml(data: ReplyData): string {
-  const successCount = data.results.filter((r) => r.success).length;
-  const failCount = data.results.length - successCount;
-  const allSuccess = failCount === 0;
-  const themeColor = allSuccess ? "#10B981" : "#F59E0B";
+// Built-in strings, overridden by <dir>/<name>.json, plus optional <name>.html / <name>.txt layouts.
+// Files are read on every call so edits apply without a restart; null when the locale does not exist.
+export function loadReplyLocale(dir: string, name: string): ReplyLocale | null {
+  const file = (ext: string) => `${dir}/${name}.${ext}`;
+  const builtin = BUILTIN[name];
+  const hasFiles = ["json", "html", "txt"].some((ext) => existsSync(file(ext)));
+  if (!builtin && !hasFiles) return null;
+
+  let overrides: Partial<ReplyStrings> = {};
+  if (existsSync(file("json"))) {
+    try {
+      overrides = JSON.parse(readFileSync(file("json"), "utf-8"));
+    } catch (err) {
+      throw new Error(`${file("json")}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return {
+    name,
+    strings: { ...(builtin || BUILTIN.en), ...overrides },
+    html: existsSync(file("html")) ? readFileSync(file("html"), "utf-8") : undefined,
+    text: existsSync(file("txt")) ? readFileSync(file("txt"), "utf-8") : undefined,
+  };
+}
+
+export function builtinLocale(name = DEFAULT_LOCALE): ReplyLocale {
+  return { name, strings: BUILTIN[name] || BUILTIN[DEFAULT_LOCALE] };
+}
+
+function fill(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (whole, key: string) => (key in vars ? String(vars[key]) : whole));
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function counts(data: ReplyData) {
+  const success = data.results.filter((r) => r.success).length;
+  return {
+    total: data.results.length,
+    success,
+    failed: data.results.length - success,
+    pending: data.results.filter((r) => r.pending).length,
+  };
+}
+
+function retryNote(r: RecipientResult, s: ReplyStrings): string {
+  const retries = (r.attempts || 1) - 1;
+  return retries > 0 ? fill(r.success ? s.retriedSuccess : s.retriedFailed, { retries }) : "";
+}
+
+// Placeholders shared by the subject and both layouts
+function reportVars(data: ReplyData, s: ReplyStrings): Record<string, string | number> {
+  const c = counts(data);
+  return {
+    ...c,
+    subject: data.subject,
+    rules: data.rules.join(", "),
+    duration: data.duration,
+    timestamp: data.timestamp,
+    heading: c.failed === 0 ? s.headingSuccess : c.pending > 0 ? s.headingPending : s.headingFailed,
+  };
+}
+
+export function getReplySubject(data: ReplyData, locale: ReplyLocale = builtinLocale()): string {
+  const s = locale.strings;
+  const { failed, pending } = counts(data);
+  const template = failed === 0 ? s.subjectSuccess : pending > 0 ? s.subjectPending : s.subjectFailed;
+  return fill(template, reportVars(data, s));
+}
+
+export function getReplyHtml(data: ReplyData, locale: ReplyLocale = builtinLocale()): string {
+  const s = locale.strings;
+  const { failed } = counts(data);
+  const themeColor = failed === 0 ? "#10B981" : "#F59E0B";
 
   const rows = data.results
     .map((r) => {
-      const retries = (r.attempts || 1) - 1;
-      const retryInfo = retries > 0 ? `<div style="font-size:11px;color:#6b7280;margin-top:2px;">重试 ${retries} 次后${r.success ? "成功" : "失败"}</div>` : "";
+      const note = retryNote(r, s);
+      const retryInfo = note ? `<div style="font-size:11px;color:#6b7280;margin-top:2px;">${escapeHtml(note)}</div>` : "";
       const badge = r.success
-        ? '<span style="display:inline-block;padding:4px 10px;background-color:#D1FAE5;color:#065F46;font-size:12px;font-weight:bold;">✓ 成功</span>'
-        : '<span style="display:inline-block;padding:4px 10px;background-color:#FEE2E2;color:#991B1B;font-size:12px;font-weight:bold;">✗ 失败</span>';
-      const errorLine = r.error ? `<div style="margin-top:4px;font-size:12px;color:#DC2626;">${r.error}</div>` : "";
+        ? `<span style="display:inline-block;padding:4px 10px;background-color:#D1FAE5;color:#065F46;font-size:12px;font-weight:bold;">✓ ${escapeHtml(s.success)}</span>`
+        : r.pending
+        ? `<span style="display:inline-block;padding:4px 10px;background-color:#FEF3C7;color:#92400E;font-size:12px;font-weight:bold;">⟳ ${escapeHtml(s.pending)}</span>`
+        : `<span style="display:inline-block;padding:4px 10px;background-color:#FEE2E2;color:#991B1B;font-size:12px;font-weight:bold;">✗ ${escapeHtml(s.failed)}</span>`;
+      const errorLine = r.error ? `<div style="margin-top:4px;font-size:12px;color:#DC2626;">${escapeHtml(r.error)}</div>` : "";
       return `<tr>
-        <td style="padding:12px;border-bottom:1px solid #f0f0f0;color:#374151;">${r.email}${errorLine}</td>
+        <td style="padding:12px;border-bottom:1px solid #f0f0f0;color:#374151;">${escapeHtml(r.email)}${errorLine}</td>
         <td style="padding:12px;border-bottom:1px solid #f0f0f0;text-align:right;vertical-align:top;">${badge}${retryInfo}</td>
       </tr>`;
     })
     .join("");
 
+  const v = Object.fromEntries(Object.entries(reportVars(data, s)).map(([k, val]) => [k, escapeHtml(String(val))]));
+  if (locale.html) return fill(locale.html, { ...v, rows, themeColor });
+
   return `<!DOCTYPE html>
 <html>
 <head><meta charset="UTF-8"></head>
@@ -53,31 +275,32 @@ export function getReplyHtml(data: ReplyData): string {
           <td style="padding:24px 32px;">
             <table width="100%" cellpadding="0" cellspacing="0" style="border-bottom:1px solid #e5e7eb;padding-bottom:16px;margin-bottom:20px;">
               <tr><td>
-                <h1 style="margin:0 0 8px 0;font-size:20px;color:#111827;">${allSuccess ? "✅ 邮件转发成功" : "⚠️ 邮件转发部分失败"}</h1>
-                <p style="margin:0;color:#6b7280;font-size:14px;">原始标题: <span style="color:#111827;font-weight:bold;">${data.subject}</span></p>
+                <h1 style="margin:0 0 8px 0;font-size:20px;color:#111827;">${v.heading}</h1>
+                <p style="margin:0;color:#6b7280;font-size:14px;">${escapeHtml(s.originalSubject)}: <span style="color:#111827;font-weight:bold;">${v.subject}</span></p>
+                <p style="margin:4px 0 0 0;color:#6b7280;font-size:14px;">${escapeHtml(s.matchedRules)}: <span style="color:#111827;">${v.rules}</span></p>
               </td></tr>
             </table>
             <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f9fafb;margin-bottom:24px;">
               <tr>
                 <td width="33%" align="center" style="padding:12px;border-right:1px solid #e5e7eb;">
-                  <div style="font-size:12px;color:#6b7280;text-transform:uppercase;">总数</div>
-                  <div style="font-size:24px;font-weight:bold;color:#374151;">${data.results.length}</div>
+                  <div style="font-size:12px;color:#6b7280;text-transform:uppercase;">${escapeHtml(s.total)}</div>
+                  <div style="font-size:24px;font-weight:bold;color:#374151;">${v.total}</div>
                 </td>
                 <td width="33%" align="center" style="padding:12px;border-right:1px solid #e5e7eb;">
-                  <div style="font-size:12px;color:#6b7280;text-transform:uppercase;">成功</div>
-                  <div style="font-size:24px;font-weight:bold;color:#10B981;">${successCount}</div>
+                  <div style="font-size:12px;color:#6b7280;text-transform:uppercase;">${escapeHtml(s.success)}</div>
+                  <div style="font-size:24px;font-weight:bold;color:#10B981;">${v.success}</div>
                 </td>
                 <td width="34%" align="center" style="padding:12px;">
-                  <div style="font-size:12px;color:#6b7280;text-transform:uppercase;">失败</div>
-                  <div style="font-size:24px;font-weight:bold;color:${failCount > 0 ? "#EF4444" : "#d1d5db"};">${failCount}</div>
+                  <div style="font-size:12px;color:#6b7280;text-transform:uppercase;">${escapeHtml(s.failed)}</div>
+                  <div style="font-size:24px;font-weight:bold;color:${failed > 0 ? "#EF4444" : "#d1d5db"};">${v.failed}</div>
                 </td>
               </tr>
             </table>
-            <p style="margin:0 0 12px 0;font-size:14px;color:#4b5563;font-weight:bold;">发送详情</p>
+            <p style="margin:0 0 12px 0;font-size:14px;color:#4b5563;font-weight:bold;">${escapeHtml(s.details)}</p>
             <table width="100%" cellpadding="0" cellspacing="0" style="font-size:14px;">
               <tr style="background-color:#f9fafb;">
-                <td style="padding:10px 12px;color:#6b7280;font-weight:bold;">收件人</td>
-                <td style="padding:10px 12px;color:#6b7280;font-weight:bold;text-align:right;">状态</td>
+                <td style="padding:10px 12px;color:#6b7280;font-weight:bold;">${escapeHtml(s.recipient)}</td>
+                <td style="padding:10px 12px;color:#6b7280;font-weight:bold;text-align:right;">${escapeHtml(s.status)}</td>
               </tr>
               ${rows}
             </table>
@@ -86,7 +309,7 @@ export function getReplyHtml(data: ReplyData): string {
         <tr>
           <td style="background-color:#f9fafb;padding:16px 32px;border-top:1px solid #e5e7eb;font-size:12px;color:#9ca3af;text-align:center;">
             <p style="margin:0 0 4px 0;font-weight:bold;">Mail Exchange</p>
-            <p style="margin:0;">耗时: ${data.duration}ms · ${data.timestamp}</p>
+            <p style="margin:0;">${escapeHtml(s.duration)}: ${v.duration}ms · ${v.timestamp}</p>
           </td>
         </tr>
       </table>
@@ -97,23 +320,27 @@ export function getReplyHtml(data: ReplyData): string {
 </html>`;
 }
 
-export function getReplyText(data: ReplyData): string {
-  const successCount = data.results.filter((r) => r.success).length;
-  const failCount = data.results.length - successCount;
+export function getReplyText(data: ReplyData, locale: ReplyLocale = builtinLocale()): string {
+  const s = locale.strings;
   const lines = data.results.map((r) => {
-    const retries = (r.attempts || 1) - 1;
-    const retryInfo = retries > 0 ? ` (重试 ${retries} 次后${r.success ? "成功" : "失败"})` : "";
-    return `  ${r.email}: ${r.success ? "成功" : "失败 - " + (r.error || "未知")}${retryInfo}`;
+    const note = retryNote(r, s);
+    const retryInfo = note ? ` (${note})` : "";
+    const status = r.success ? s.success : `${r.pending ? s.pending : s.failed} - ${r.error || s.unknownError}`;
+    return `  ${r.email}: ${status}${retryInfo}`;
   });
 
-  return `[Mail Exchange] 邮件转发报告
+  const vars = reportVars(data, s);
+  if (locale.text) return fill(locale.text, { ...vars, rows: lines.join("\n") });
+
+  return `${s.reportTitle}
 
-原始标题: ${data.subject}
-统计: 成功 ${successCount} / 失败 ${failCount} / 共 ${data.results.length}
+${s.originalSubject}: ${data.subject}
+${s.matchedRules}: ${vars.rules}
+${fill(s.stats, vars)}
 
-发送详情:
+${s.details}:
 ${lines.join("\n")}
 
-耗时: ${data.duration}ms
-完成时间: ${data.timestamp}`;
+${s.duration}: ${data.duration}ms
+${s.completedAt}: ${data.timestamp}`;
 }
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import { simpleParser } from "mailparser";
+import { compileRule, compileRules, matchRules, ForwardRule, RuleCondition } from "./rules";
+
+const RAW = [
+  "From: Alice <alice@example.com>",
+  "To: Bob <bob@example.org>",
+  "Cc: carol@lists.example.net",
+  "Delivered-To: <inbox@example.org>",
+  "X-Priority: 1 (Highest)",
+  "Subject: [PHOTO] Holiday pictures",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/mixed; boundary="b"',
+  "",
+  "--b",
+  "Content-Type: text/plain",
+  "",
+  "See the invoice attached.",
+  "--b",
+  "Content-Type: application/pdf",
+  'Content-Disposition: attachment; filename="invoice-42.pdf"',
+  "Content-Transfer-Encoding: base64",
+  "",
+  "JVBERi0xLjQK",
+  "--b--",
+  "",
+].join("\r\n");
+
+const parsed = simpleParser(Buffer.from(RAW));
+
+async function matches(match: RuleCondition): Promise<boolean> {
+  return compileRule({ match, recipients: ["x@example.org"] }, 0).test(await parsed);
+}
+
+describe("conditions", () => {
+  test("subject, body and header patterns are case-insensitive regexes", async () => {
+    expect(await matches({ subject: "^\\[photo\\]" })).toBe(true);
+    expect(await matches({ subject: "invoice" })).toBe(false);
+    expect(await matches({ body: "INVOICE attached" })).toBe(true);
+    expect(await matches({ header: "X-Priority", pattern: "^1\\b" })).toBe(true);
+    expect(await matches({ header: "X-Missing", pattern: "." })).toBe(false);
+  });
+
+  test("from matches a full address or an exact domain", async () => {
+    expect(await matches({ from: "ALICE@example.com" })).toBe(true);
+    expect(await matches({ from: "@example.com" })).toBe(true);
+    expect(await matches({ from: "example.com" })).toBe(true);
+    expect(await matches({ from: "@mail.example.com" })).toBe(false);
+    expect(await matches({ from: "@ample.com" })).toBe(false);
+    expect(await matches({ from: "bob@example.org" })).toBe(false);
+  });
+
+  test("to covers To, Cc and Delivered-To", async () => {
+    expect(await matches({ to: "bob@example.org" })).toBe(true);
+    expect(await matches({ to: "@lists.example.net" })).toBe(true);
+    expect(await matches({ to: "inbox@example.org" })).toBe(true);
+    expect(await matches({ to: "alice@example.com" })).toBe(false);
+  });
+
+  test("attachment name and type", async () => {
+    expect(await matches({ attachmentName: "\\.pdf$" })).toBe(true);
+    expect(await matches({ attachmentType: "^application/pdf$" })).toBe(true);
+    expect(await matches({ attachmentType: "^image/" })).toBe(false);
+  });
+
+  test("all, any and not combine", async () => {
+    expect(await matches({ all: [{ from: "@example.com" }, { subject: "holiday" }] })).toBe(true);
+    expect(await matches({ all: [{ from: "@example.com" }, { subject: "work" }] })).toBe(false);
+    expect(await matches({ any: [{ subject: "work" }, { body: "invoice" }] })).toBe(true);
+    expect(await matches({ not: { from: "@example.com" } })).toBe(false);
+    expect(await matches({ all: [{ not: { subject: "work" } }, { any: [{ to: "@nowhere.test" }, { attachmentName: "invoice" }] }] })).toBe(true);
+  });
+
+  test("a tag and a match must both hold", async () => {
+    const mail = await parsed;
+    expect(compileRule({ tag: "[photo]", match: { from: "@example.com" }, recipients: ["x@example.org"] }, 0).test(mail)).toBe(true);
+    expect(compileRule({ tag: "[photo]", match: { from: "@example.org" }, recipients: ["x@example.org"] }, 0).test(mail)).toBe(false);
+  });
+
+  test("invalid conditions name their config path", () => {
+    const bad = (match: unknown) => () => compileRules([{ match, recipients: ["x@example.org"] } as ForwardRule]);
+    expect(bad({ subject: "(" })).toThrow("rules[0].match.subject: invalid pattern");
+    expect(bad({ all: [] })).toThrow("rules[0].match.all: must be a non-empty array");
+    expect(bad({ any: [{ from: "nobody" }] })).toThrow("rules[0].match.any[0].from: expected an address or domain");
+    expect(bad({ header: "X-Priority" })).toThrow("rules[0].match.pattern");
+    expect(bad({ sender: "a@b.com" })).toThrow("rules[0].match: unknown condition sender");
+    expect(() => compileRules([{ recipients: ["x@example.org"] }])).toThrow('rules[0]: needs a "tag" or a "match" condition');
+  });
+});
+
+describe("matchRules", () => {
+  const rules = compileRules([
+    { name: "photos", tag: "[photo]", recipients: ["a@example.org", "B@example.org"] },
+    { name: "off", tag: "holiday", recipients: ["off@example.org"], enabled: false },
+    { name: "holiday", match: { subject: "holiday" }, recipients: ["b@example.org", "c@example.org"] },
+    { name: "never", tag: "[work]", recipients: ["d@example.org"] },
+  ]);
+
+  test('"first" stops at the first matching rule', async () => {
+    const result = matchRules(rules, await parsed, "first");
+    expect(result.rules.map((r) => r.label)).toEqual(["photos"]);
+    expect(result.recipients.map((r) => r.email)).toEqual(["a@example.org", "B@example.org"]);
+  });
+
+  test('"all" applies every enabled match and keeps the first rule per recipient', async () => {
+    const result = matchRules(rules, await parsed, "all");
+    expect(result.rules.map((r) => r.label)).toEqual(["photos", "holiday"]);
+    expect(result.recipients.map((r) => [r.email, r.rule.label])).toEqual([
+      ["a@example.org", "photos"],
+      ["B@example.org", "photos"],
+      ["c@example.org", "holiday"],
+    ]);
+  });
+
+  test("onMatch overrides the evaluation mode", async () => {
+    const mail = await parsed;
+    const ordered = compileRules([
+      { tag: "[photo]", recipients: ["a@example.org"], onMatch: "continue" },
+      { tag: "holiday", recipients: ["b@example.org"], onMatch: "stop" },
+      { tag: "pictures", recipients: ["c@example.org"] },
+    ]);
+    expect(matchRules(ordered, mail, "first").recipients.map((r) => r.email)).toEqual(["a@example.org", "b@example.org"]);
+    expect(matchRules(ordered, mail, "all").recipients.map((r) => r.email)).toEqual(["a@example.org", "b@example.org"]);
+  });
+
+  test("a rule refused by its sender policy is skipped and reported", async () => {
+    const guarded = compileRules([
+      { name: "guarded", tag: "[photo]", recipients: ["a@example.org"], senderPolicy: { allow: ["@example.org"] } },
+      { name: "open", tag: "[photo]", recipients: ["b@example.org"] },
+    ]);
+    const result = matchRules(guarded, await parsed, "first", { address: "alice@example.com", auth: {} });
+    expect(result.rules.map((r) => r.label)).toEqual(["open"]);
+    expect(result.blocked.map((b) => [b.rule.label, b.reason])).toEqual([["guarded", "sender alice@example.com is not allowed"]]);
+  });
+});
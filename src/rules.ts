@@ -0,0 +1,264 @@
+// Forwarding rules - condition trees compiled from config
+
+import { ParsedMail, AddressObject, EmailAddress } from "mailparser";
+import { MailboxAction, validateMailboxActions } from "./mailbox-actions";
+import { ForwardMode, ForwardTemplate, FORWARD_MODES, validateTemplate } from "./forward-message";
+import { NotifyPolicy, validateNotifyPolicy } from "./reply-template";
+import { AttachmentPolicy, validateAttachmentPolicy } from "./attachment-policy";
+import { SenderAuthConfig, SenderContext, SenderPolicy, senderPolicyFailure, validateSenderPolicy } from "./sender-policy";
+import { SenderIdentity, validateIdentity } from "./smtp-transports";
+import { DigestConfig, validateDigest } from "./digest";
+
+// Condition tree: combinators plus leaf tests against the incoming mail.
+// Patterns are case-insensitive regular expressions; address tests accept
+// a full address ("a@b.com") or a domain ("@b.com").
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { subject: string }
+  | { from: string }
+  | { to: string }
+  | { header: string; pattern: string }
+  | { body: string }
+  | { attachmentName: string }
+  | { attachmentType: string };
+
+export interface ForwardRule {
+  name?: string;
+  tag?: string;
+  match?: RuleCondition;
+  recipients: string[];
+  // How the message is forwarded; defaults to "inline"
+  mode?: ForwardMode;
+  // Subject and body header/footer templates with {{placeholders}}
+  template?: ForwardTemplate;
+  // What to do after this rule matches; defaults to the global evaluation mode
+  onMatch?: "stop" | "continue";
+  enabled?: boolean;
+  // Overrides the global mailboxActions when this rule fired
+  mailboxActions?: { forwarded?: MailboxAction; failed?: MailboxAction };
+  // Overrides the global notify settings when this rule fired
+  notify?: NotifyPolicy;
+  // Extra sender allow/deny lists and SPF/DKIM/DMARC requirements for this rule
+  senderPolicy?: SenderPolicy;
+  // Size limit, type filters, stripping and download links; inline mode only
+  attachments?: AttachmentPolicy;
+  // SMTP transport names: the primary (default: the first configured) and the
+  // ones tried in order when it fails or is being skipped
+  transport?: string;
+  fallbackTransports?: string[];
+  // From / Reply-To and DKIM signing for this rule's forwarded copies
+  identity?: SenderIdentity;
+  // Collect matching mail and send it as one message on a schedule instead of forwarding each
+  digest?: DigestConfig;
+}
+
+// "first": stop at the first matching rule; "all": apply every matching rule
+export type RuleEvaluation = "first" | "all";
+
+// A recipient and the rule that first claimed it (its mode, templates etc. apply)
+export interface MatchedRecipient {
+  email: string;
+  rule: CompiledRule;
+}
+
+export interface RuleMatch {
+  rules: CompiledRule[];
+  recipients: MatchedRecipient[];
+  // Rules whose conditions matched but whose sender policy refused the message
+  blocked: { rule: CompiledRule; reason: string }[];
+}
+
+export interface CompiledRule {
+  rule: ForwardRule;
+  label: string;
+  test: (mail: ParsedMail) => boolean;
+}
+
+type Predicate = (mail: ParsedMail) => boolean;
+
+function flattenAddresses(list: EmailAddress[]): string[] {
+  return list.flatMap((a) => (a.group ? flattenAddresses(a.group) : a.address ? [a.address.toLowerCase()] : []));
+}
+
+function addressesOf(field: AddressObject | AddressObject[] | undefined): string[] {
+  if (!field) return [];
+  return (Array.isArray(field) ? field : [field]).flatMap((f) => flattenAddresses(f.value));
+}
+
+// Raw values of every line of a header, in message order
+export function headerValues(mail: ParsedMail, name: string): string[] {
+  const key = name.toLowerCase();
+  return (mail.headerLines || [])
+    .filter((h) => h.key === key)
+    .map((h) => h.line.slice(h.line.indexOf(":") + 1).trim());
+}
+
+// Delivered-To is a raw header; pull the bare address out of each line
+function deliveredTo(mail: ParsedMail): string[] {
+  return headerValues(mail, "delivered-to").map((v) => v.replace(/^.*<([^>]+)>.*$/, "$1").trim().toLowerCase());
+}
+
+function compilePattern(pattern: unknown, path: string): RegExp {
+  if (typeof pattern !== "string" || !pattern) throw new Error(`${path}: pattern must be a non-empty string`);
+  try {
+    return new RegExp(pattern, "i");
+  } catch (err) {
+    throw new Error(`${path}: invalid pattern "${pattern}" - ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function compileAddress(spec: unknown, path: string): (addr: string) => boolean {
+  if (typeof spec !== "string" || (!spec.includes("@") && !spec.includes("."))) {
+    throw new Error(`${path}: expected an address or domain, got ${JSON.stringify(spec)}`);
+  }
+  const want = spec.toLowerCase();
+  if (!want.startsWith("@") && want.includes("@")) return (addr) => addr === want;
+  const domain = want.replace(/^@/, "");
+  return (addr) => addr.slice(addr.lastIndexOf("@") + 1) === domain;
+}
+
+function compileCondition(cond: unknown, path: string): Predicate {
+  if (!cond || typeof cond !== "object" || Array.isArray(cond)) {
+    throw new Error(`${path}: condition must be an object`);
+  }
+  const c = cond as Record<string, unknown>;
+  const keys = Object.keys(c);
+
+  if ("all" in c || "any" in c) {
+    const op = "all" in c ? "all" : "any";
+    const list = c[op];
+    if (!Array.isArray(list) || !list.length) throw new Error(`${path}.${op}: must be a non-empty array`);
+    const preds = list.map((sub, i) => compileCondition(sub, `${path}.${op}[${i}]`));
+    return op === "all" ? (m) => preds.every((p) => p(m)) : (m) => preds.some((p) => p(m));
+  }
+  if ("not" in c) {
+    const pred = compileCondition(c.not, `${path}.not`);
+    return (m) => !pred(m);
+  }
+  if ("subject" in c) {
+    const re = compilePattern(c.subject, `${path}.subject`);
+    return (m) => re.test(m.subject || "");
+  }
+  if ("from" in c) {
+    const test = compileAddress(c.from, `${path}.from`);
+    return (m) => addressesOf(m.from).some(test);
+  }
+  if ("to" in c) {
+    const test = compileAddress(c.to, `${path}.to`);
+    return (m) => [...addressesOf(m.to), ...addressesOf(m.cc), ...deliveredTo(m)].some(test);
+  }
+  if ("header" in c) {
+    if (typeof c.header !== "string" || !c.header) throw new Error(`${path}.header: must be a header name`);
+    const name = c.header;
+    const re = compilePattern(c.pattern, `${path}.pattern`);
+    return (m) => headerValues(m, name).some((v) => re.test(v));
+  }
+  if ("body" in c) {
+    const re = compilePattern(c.body, `${path}.body`);
+    return (m) => re.test(m.text || (typeof m.html === "string" ? m.html : ""));
+  }
+  if ("attachmentName" in c) {
+    const re = compilePattern(c.attachmentName, `${path}.attachmentName`);
+    return (m) => (m.attachments || []).some((a) => re.test(a.filename || ""));
+  }
+  if ("attachmentType" in c) {
+    const re = compilePattern(c.attachmentType, `${path}.attachmentType`);
+    return (m) => (m.attachments || []).some((a) => re.test(a.contentType || ""));
+  }
+  throw new Error(`${path}: unknown condition ${keys.length ? keys.join(", ") : "(empty)"}`);
+}
+
+// Display name for a rule: explicit name, then tag, then its position
+export function ruleLabel(rule: ForwardRule, index: number): string {
+  return rule.name || rule.tag || `rule #${index + 1}`;
+}
+
+// Validate and compile a single rule; throws with the offending config path.
+// senderAuth is the global setting, needed to tell whether requireAuth can be checked.
+export function compileRule(rule: ForwardRule, index: number, senderAuth?: SenderAuthConfig): CompiledRule {
+  const path = `rules[${index}]`;
+  if (!rule || typeof rule !== "object") throw new Error(`${path}: rule must be an object`);
+  if (!Array.isArray(rule.recipients) || !rule.recipients.length) {
+    throw new Error(`${path}.recipients: must be a non-empty array`);
+  }
+  if (rule.tag === undefined && rule.match === undefined) {
+    throw new Error(`${path}: needs a "tag" or a "match" condition`);
+  }
+  if (rule.tag !== undefined && (typeof rule.tag !== "string" || !rule.tag)) {
+    throw new Error(`${path}.tag: must be a non-empty string`);
+  }
+  if (rule.onMatch !== undefined && rule.onMatch !== "stop" && rule.onMatch !== "continue") {
+    throw new Error(`${path}.onMatch: must be "stop" or "continue"`);
+  }
+  if (rule.enabled !== undefined && typeof rule.enabled !== "boolean") {
+    throw new Error(`${path}.enabled: must be true or false`);
+  }
+  if (rule.mode !== undefined && !FORWARD_MODES.includes(rule.mode)) {
+    throw new Error(`${path}.mode: must be one of ${FORWARD_MODES.join(", ")}`);
+  }
+  validateTemplate(rule.template, `${path}.template`);
+  validateMailboxActions(rule.mailboxActions, `${path}.mailboxActions`, ["forwarded", "failed"]);
+  validateNotifyPolicy(rule.notify, `${path}.notify`);
+  validateSenderPolicy(rule.senderPolicy, `${path}.senderPolicy`, senderAuth);
+  validateAttachmentPolicy(rule.attachments, `${path}.attachments`);
+  if (rule.attachments && rule.mode && rule.mode !== "inline") {
+    throw new Error(`${path}.attachments: only supported with mode "inline"`);
+  }
+  if (rule.transport !== undefined && (typeof rule.transport !== "string" || !rule.transport)) {
+    throw new Error(`${path}.transport: must be a transport name`);
+  }
+  if (rule.fallbackTransports !== undefined && (!Array.isArray(rule.fallbackTransports) || rule.fallbackTransports.some((t) => typeof t !== "string" || !t))) {
+    throw new Error(`${path}.fallbackTransports: must be a list of transport names`);
+  }
+  validateIdentity(rule.identity, `${path}.identity`);
+  validateDigest(rule.digest, `${path}.digest`);
+  for (const key of ["mode", "template", "attachments"] as const) {
+    if (rule.digest && rule[key] !== undefined) throw new Error(`${path}.${key}: not used by digest rules`);
+  }
+
+  const preds: Predicate[] = [];
+  if (rule.tag) {
+    const tag = rule.tag.toLowerCase();
+    preds.push((m) => (m.subject || "").toLowerCase().includes(tag));
+  }
+  if (rule.match !== undefined) preds.push(compileCondition(rule.match, `${path}.match`));
+
+  return { rule, label: ruleLabel(rule, index), test: (m) => preds.every((p) => p(m)) };
+}
+
+export function compileRules(rules: ForwardRule[], senderAuth?: SenderAuthConfig): CompiledRule[] {
+  if (!Array.isArray(rules)) throw new Error("rules: must be an array");
+  return rules.map((r, i) => compileRule(r, i, senderAuth));
+}
+
+// Collect every rule that fires, honouring per-rule stop/continue, and merge
+// their recipients case-insensitively in rule order. A rule whose sender policy
+// refuses the message is skipped as if it had not matched.
+export function matchRules(rules: CompiledRule[], mail: ParsedMail, mode: RuleEvaluation = "first", sender?: SenderContext): RuleMatch {
+  const matched: CompiledRule[] = [];
+  const blocked: RuleMatch["blocked"] = [];
+  for (const r of rules) {
+    if (r.rule.enabled === false || !r.test(mail)) continue;
+    const reason = sender && senderPolicyFailure(r.rule.senderPolicy, sender);
+    if (reason) {
+      blocked.push({ rule: r, reason });
+      continue;
+    }
+    matched.push(r);
+    if ((r.rule.onMatch || (mode === "all" ? "continue" : "stop")) === "stop") break;
+  }
+
+  const seen = new Set<string>();
+  const recipients: MatchedRecipient[] = [];
+  for (const r of matched) {
+    for (const addr of r.rule.recipients) {
+      const key = addr.trim().toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      recipients.push({ email: addr.trim(), rule: r });
+    }
+  }
+  return { rules: matched, recipients, blocked };
+}
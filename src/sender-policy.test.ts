@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import { simpleParser } from "mailparser";
+import { authenticateSender, authFailure, matchesSenderList, senderListFailure, senderPolicyFailure, validateSenderList } from "./sender-policy";
+
+async function mail(headers: string[], from = "alice@example.com") {
+  const raw = Buffer.from([...headers, `From: Alice <${from}>`, "To: bob@example.org", "Subject: hi", "", "body", ""].join("\r\n"));
+  return { mail: await simpleParser(raw), raw };
+}
+
+describe("sender lists", () => {
+  test("@domain matches that domain only", () => {
+    expect(matchesSenderList(["@example.com"], "alice@example.com")).toBe(true);
+    expect(matchesSenderList(["@example.com"], "alice@sub.example.com")).toBe(false);
+    expect(matchesSenderList(["@example.com"], "alice@notexample.com")).toBe(false);
+    expect(matchesSenderList(["@example.com"], "alice@example.com.evil.net")).toBe(false);
+  });
+
+  test("a bare domain works like @domain", () => {
+    expect(matchesSenderList(["example.com"], "alice@example.com")).toBe(true);
+    expect(matchesSenderList(["example.com"], "alice@evilexample.com")).toBe(false);
+  });
+
+  test("*.domain matches subdomains but not the domain itself or lookalikes", () => {
+    expect(matchesSenderList(["*.example.com"], "alice@mail.example.com")).toBe(true);
+    expect(matchesSenderList(["*.example.com"], "alice@a.b.example.com")).toBe(true);
+    expect(matchesSenderList(["*.example.com"], "alice@example.com")).toBe(false);
+    expect(matchesSenderList(["*.example.com"], "alice@badexample.com")).toBe(false);
+    expect(matchesSenderList(["*.example.com"], "alice@mail.example.com.evil.net")).toBe(false);
+  });
+
+  test("a full address matches exactly, ignoring case", () => {
+    expect(matchesSenderList(["Alice@Example.com"], "alice@EXAMPLE.com")).toBe(true);
+    expect(matchesSenderList(["alice@example.com"], "malice@example.com")).toBe(false);
+    expect(matchesSenderList(["alice@example.com"], "alice@example.com.evil.net")).toBe(false);
+  });
+
+  test("an empty sender matches nothing", () => {
+    expect(matchesSenderList(["@example.com"], "")).toBe(false);
+    expect(senderListFailure("", ["@example.com"], undefined)).toBe("sender (none) is not allowed");
+  });
+
+  test("deny wins over allow", () => {
+    expect(senderListFailure("spam@example.com", ["@example.com"], ["spam@example.com"])).toBe("sender spam@example.com is denied");
+    expect(senderListFailure("alice@example.com", ["@example.com"], ["spam@example.com"])).toBeNull();
+    expect(senderListFailure("alice@example.org", ["@example.com"], undefined)).toBe("sender alice@example.org is not allowed");
+    expect(senderListFailure("alice@example.org", [], [])).toBeNull();
+  });
+
+  test("validation rejects entries that cannot match", () => {
+    expect(() => validateSenderList(["@example.com", "*.example.com", "a@example.com"], "allow")).not.toThrow();
+    expect(() => validateSenderList(["example"], "allow")).toThrow("allow[0]");
+    expect(() => validateSenderList(["*@example.com"], "allow")).toThrow("allow[0]");
+    expect(() => validateSenderList(["a.*.example.com"], "allow")).toThrow("allow[0]");
+  });
+});
+
+describe("authenticateSender", () => {
+  const auth = { trustedServers: ["mx.example.org"] };
+
+  test("reads SPF, DKIM and DMARC from a trusted header", async () => {
+    const { mail: m, raw } = await mail([
+      "Authentication-Results: mx.example.org; spf=pass smtp.mailfrom=bounce@example.com; dkim=pass header.d=example.com; dmarc=pass header.from=example.com",
+    ]);
+    expect(await authenticateSender(m, raw, auth)).toEqual({ spf: "pass", dkim: "pass", dmarc: "pass" });
+  });
+
+  test("only the topmost trusted header counts", async () => {
+    const { mail: m, raw } = await mail([
+      "Authentication-Results: mx.example.org; spf=fail smtp.mailfrom=alice@example.com; dkim=none",
+      "Authentication-Results: mx.example.org; spf=pass smtp.mailfrom=alice@example.com; dkim=pass header.d=example.com; dmarc=pass",
+    ]);
+    expect(await authenticateSender(m, raw, auth)).toEqual({ spf: "fail", dkim: "none", dmarc: "none" });
+  });
+
+  test("headers from other servers are ignored, even above the trusted one", async () => {
+    const { mail: m, raw } = await mail([
+      "Authentication-Results: forged.example.net; spf=pass smtp.mailfrom=alice@example.com; dkim=pass header.d=example.com; dmarc=pass",
+      "Authentication-Results: mx.example.org; spf=softfail smtp.mailfrom=alice@example.com",
+    ]);
+    expect(await authenticateSender(m, raw, auth)).toEqual({ spf: "softfail", dkim: "none", dmarc: "none" });
+  });
+
+  test("the authserv-id must match exactly", async () => {
+    const { mail: m, raw } = await mail([
+      "Authentication-Results: mx.example.org.evil.net; spf=pass smtp.mailfrom=alice@example.com; dkim=pass header.d=example.com; dmarc=pass",
+    ]);
+    const none = "no trusted Authentication-Results";
+    expect(await authenticateSender(m, raw, auth)).toEqual({ spf: none, dkim: none, dmarc: none });
+  });
+
+  test("a pass for another domain is unaligned", async () => {
+    const { mail: m, raw } = await mail([
+      "Authentication-Results: mx.example.org; spf=pass smtp.mailfrom=x@notexample.com; dkim=pass header.d=example.com.evil.net",
+    ]);
+    expect(await authenticateSender(m, raw, auth)).toMatchObject({ spf: "unaligned", dkim: "unaligned" });
+  });
+
+  test("parent, sub and sibling domains of the same organization are aligned", async () => {
+    const { mail: m, raw } = await mail(
+      ["Authentication-Results: mx.example.org; spf=pass smtp.mailfrom=bounce@mail.example.com; dkim=pass header.i=@example.com"],
+      "alice@news.example.com"
+    );
+    expect(await authenticateSender(m, raw, auth)).toMatchObject({ spf: "pass", dkim: "pass" });
+    const { mail: m2, raw: raw2 } = await mail(["Authentication-Results: mx.example.org; spf=pass smtp.mailfrom=bounce@A.EXAMPLE.COM"], "alice@b.example.com");
+    expect(await authenticateSender(m2, raw2, auth)).toMatchObject({ spf: "pass" });
+  });
+
+  test("domains that only share a public suffix are not aligned", async () => {
+    const { mail: m, raw } = await mail(
+      ["Authentication-Results: mx.example.org; spf=pass smtp.mailfrom=bounce@evil.co.uk; dkim=pass header.d=co.uk"],
+      "alice@shop.co.uk"
+    );
+    expect(await authenticateSender(m, raw, auth)).toMatchObject({ spf: "unaligned", dkim: "unaligned" });
+    const { mail: m2, raw: raw2 } = await mail(
+      ["Authentication-Results: mx.example.org; spf=pass smtp.mailfrom=x@attacker.github.io; dkim=pass header.d=github.io"],
+      "alice@victim.github.io"
+    );
+    expect(await authenticateSender(m2, raw2, auth)).toMatchObject({ spf: "unaligned", dkim: "unaligned" });
+    const { mail: m3, raw: raw3 } = await mail(["Authentication-Results: mx.example.org; dkim=pass header.d=victim.github.io"], "alice@news.victim.github.io");
+    expect(await authenticateSender(m3, raw3, auth)).toMatchObject({ dkim: "pass" });
+  });
+
+  test("comments and folded lines are handled", async () => {
+    const { mail: m, raw } = await mail([
+      "Authentication-Results: mx.example.org (Postfix; 1.2.3);\r\n\tdkim=pass (2048-bit key; unprotected) header.d=example.com header.s=sel;\r\n\tdmarc=pass (p=REJECT) header.from=example.com",
+    ]);
+    expect(await authenticateSender(m, raw, auth)).toEqual({ spf: "none", dkim: "pass", dmarc: "pass" });
+  });
+});
+
+describe("policy failures", () => {
+  test("the first unmet requirement is reported", () => {
+    const ctx = { address: "alice@example.com", auth: { spf: "pass", dkim: "unaligned" } };
+    expect(authFailure(["spf", "dkim", "dmarc"], ctx)).toBe("DKIM unaligned");
+    expect(authFailure(["dmarc"], ctx)).toBe("DMARC none");
+    expect(authFailure(["spf"], ctx)).toBeNull();
+  });
+
+  test("sender lists are checked before authentication", () => {
+    const ctx = { address: "alice@example.org", auth: {} };
+    expect(senderPolicyFailure({ allow: ["@example.com"], requireAuth: ["dkim"] }, ctx)).toBe("sender alice@example.org is not allowed");
+    expect(senderPolicyFailure({ allow: ["@example.org"], requireAuth: ["dkim"] }, ctx)).toBe("DKIM none");
+    expect(senderPolicyFailure(undefined, ctx)).toBeNull();
+  });
+});
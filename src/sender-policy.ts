@@ -0,0 +1,220 @@
+// Sender policy - allow/deny lists and SPF/DKIM/DMARC requirements
+
+import { ParsedMail } from "mailparser";
+import { dkimVerify } from "mailauth/lib/dkim/verify";
+import { getDomain } from "tldts";
+
+export type AuthMethod = "spf" | "dkim" | "dmarc";
+
+export const AUTH_METHODS: AuthMethod[] = ["spf", "dkim", "dmarc"];
+
+// Where authentication results come from, and what every message must pass
+export interface SenderAuthConfig {
+  // authserv-ids whose Authentication-Results headers are trusted (normally your own MX)
+  trustedServers?: string[];
+  // Verify DKIM signatures locally when no trusted header reports an aligned pass
+  localDkim?: boolean;
+  require?: AuthMethod[];
+}
+
+// Per-rule sender restrictions, checked on top of the account and global lists
+export interface SenderPolicy {
+  allow?: string[];
+  deny?: string[];
+  requireAuth?: AuthMethod[];
+}
+
+// What is known about a message's sender, worked out once before rules are evaluated.
+// auth holds "pass" for an aligned pass, otherwise the reported result.
+export interface SenderContext {
+  address: string;
+  auth: Partial<Record<AuthMethod, string>>;
+}
+
+// Sender list entries: "a@b.com" (that address), "@b.com" or "b.com" (that domain),
+// "*.b.com" or "@*.b.com" (any subdomain of b.com, not b.com itself)
+export function validateSenderList(list: unknown, path: string): void {
+  if (list === undefined) return;
+  if (!Array.isArray(list)) throw new Error(`${path}: must be a list of addresses or domains`);
+  list.forEach((entry, i) => {
+    if (typeof entry !== "string" || !/^([^@\s*]+@|@)?(\*\.)?[^@\s*]+\.[^@\s*]+$/.test(entry.trim())) {
+      throw new Error(`${path}[${i}]: expected an address, @domain or *.domain, got ${JSON.stringify(entry)}`);
+    }
+  });
+}
+
+function domainOf(address: string): string {
+  return address.slice(address.lastIndexOf("@") + 1).toLowerCase();
+}
+
+function entryMatches(entry: string, address: string): boolean {
+  const want = entry.trim().toLowerCase().replace(/^@/, "");
+  const addr = address.toLowerCase();
+  if (want.includes("@")) return addr === want;
+  const domain = domainOf(addr);
+  if (want.startsWith("*.")) return domain.endsWith(want.slice(1));
+  return domain === want;
+}
+
+export function matchesSenderList(list: string[], address: string): boolean {
+  return !!address && list.some((entry) => entryMatches(entry, address));
+}
+
+// Reason the address is refused by these lists, or null; deny wins over allow
+export function senderListFailure(address: string, allow: string[] | undefined, deny: string[] | undefined): string | null {
+  if (deny?.length && matchesSenderList(deny, address)) return `sender ${address || "(none)"} is denied`;
+  if (allow?.length && !matchesSenderList(allow, address)) return `sender ${address || "(none)"} is not allowed`;
+  return null;
+}
+
+function validateMethods(methods: unknown, path: string): void {
+  if (methods === undefined) return;
+  if (!Array.isArray(methods) || methods.some((m) => !AUTH_METHODS.includes(m))) {
+    throw new Error(`${path}: must be a list of ${AUTH_METHODS.join(", ")}`);
+  }
+}
+
+// Methods that can actually be checked with this configuration
+export function checkableMethods(auth: SenderAuthConfig | undefined): AuthMethod[] {
+  if (auth?.trustedServers?.length) return AUTH_METHODS;
+  return auth?.localDkim ? ["dkim"] : [];
+}
+
+// Fail early on a requirement that could never pass
+function validateRequirement(required: AuthMethod[] | undefined, auth: SenderAuthConfig | undefined, path: string): void {
+  const available = checkableMethods(auth);
+  for (const m of required || []) {
+    if (!available.includes(m)) {
+      throw new Error(`${path}: ${m} cannot be checked; set senderAuth.trustedServers${m === "dkim" ? " or senderAuth.localDkim" : ""}`);
+    }
+  }
+}
+
+export function validateSenderAuth(auth: SenderAuthConfig | undefined): void {
+  if (auth === undefined) return;
+  if (!auth || typeof auth !== "object" || Array.isArray(auth)) throw new Error("senderAuth: must be an object");
+  const servers = auth.trustedServers;
+  if (servers !== undefined && (!Array.isArray(servers) || servers.some((s) => typeof s !== "string" || !s))) {
+    throw new Error("senderAuth.trustedServers: must be a list of authserv-ids");
+  }
+  if (auth.localDkim !== undefined && typeof auth.localDkim !== "boolean") throw new Error("senderAuth.localDkim: must be true or false");
+  validateMethods(auth.require, "senderAuth.require");
+  validateRequirement(auth.require, auth, "senderAuth.require");
+}
+
+export function validateSenderPolicy(policy: SenderPolicy | undefined, path: string, auth?: SenderAuthConfig): void {
+  if (policy === undefined) return;
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) throw new Error(`${path}: must be an object`);
+  for (const key of Object.keys(policy)) {
+    if (!["allow", "deny", "requireAuth"].includes(key)) throw new Error(`${path}.${key}: unknown field`);
+  }
+  validateSenderList(policy.allow, `${path}.allow`);
+  validateSenderList(policy.deny, `${path}.deny`);
+  validateMethods(policy.requireAuth, `${path}.requireAuth`);
+  validateRequirement(policy.requireAuth, auth, `${path}.requireAuth`);
+}
+
+// The registrable domain by the public suffix list (private suffixes such as github.io included), as DMARC uses
+function organizationalDomain(domain: string): string {
+  const d = domain.toLowerCase();
+  return getDomain(d, { allowPrivateDomains: true }) || d;
+}
+
+// Relaxed alignment: both domains share an organizational domain
+function aligned(domain: string, fromDomain: string): boolean {
+  return !!domain && !!fromDomain && organizationalDomain(domain) === organizationalDomain(fromDomain);
+}
+
+interface AuthResult {
+  method: string;
+  result: string;
+  props: Record<string, string>;
+}
+
+function stripComments(value: string): string {
+  let out = value;
+  for (let prev = ""; prev !== out; ) {
+    prev = out;
+    out = out.replace(/\([^()]*\)/g, " ");
+  }
+  return out;
+}
+
+// Split an Authentication-Results value into its authserv-id and method results
+function parseAuthResults(value: string): { server: string; results: AuthResult[] } {
+  const [head, ...parts] = stripComments(value.replace(/\r?\n[ \t]+/g, " ")).split(";");
+  const results = parts
+    .map((part) => part.trim().split(/\s+/).filter(Boolean))
+    .filter((tokens) => tokens.length && tokens[0].includes("="))
+    .map((tokens) => {
+      const [method, result] = tokens[0].split("=");
+      const props: Record<string, string> = {};
+      for (const t of tokens.slice(1)) {
+        const eq = t.indexOf("=");
+        if (eq > 0) props[t.slice(0, eq).toLowerCase()] = t.slice(eq + 1).replace(/^"|"$/g, "");
+      }
+      return { method: method.toLowerCase().replace(/\/.*$/, ""), result: result.toLowerCase(), props };
+    });
+  return { server: head.trim().split(/\s+/)[0].toLowerCase(), results };
+}
+
+// The topmost Authentication-Results header added by a trusted server. Headers
+// further down (or from other servers) may have been written by the sender.
+function trustedAuthResults(mail: ParsedMail, trusted: string[]): AuthResult[] | null {
+  const servers = trusted.map((s) => s.toLowerCase());
+  for (const h of mail.headerLines || []) {
+    if (h.key !== "authentication-results") continue;
+    const parsed = parseAuthResults(h.line.slice(h.line.indexOf(":") + 1));
+    if (servers.includes(parsed.server)) return parsed.results;
+  }
+  return null;
+}
+
+function verdict(results: AuthResult[], method: AuthMethod, isAligned: (r: AuthResult) => boolean): string {
+  const mine = results.filter((r) => r.method === method);
+  if (!mine.length) return "none";
+  if (mine.some((r) => r.result === "pass" && isAligned(r))) return "pass";
+  return mine.some((r) => r.result === "pass") ? "unaligned" : mine[0].result;
+}
+
+async function localDkim(raw: Buffer, fromDomain: string): Promise<string> {
+  try {
+    const { results } = await dkimVerify(raw);
+    if (!results.length) return "none";
+    if (results.some((r) => r.status.result === "pass" && aligned(r.signingDomain, fromDomain))) return "pass";
+    return results.some((r) => r.status.result === "pass") ? "unaligned" : results[0].status.result;
+  } catch {
+    return "temperror";
+  }
+}
+
+// SPF, DKIM and DMARC verdicts for the From domain
+export async function authenticateSender(mail: ParsedMail, raw: Buffer, auth: SenderAuthConfig): Promise<SenderContext["auth"]> {
+  const fromDomain = domainOf(mail.from?.value?.[0]?.address || "");
+  const verdicts: SenderContext["auth"] = {};
+  if (auth.trustedServers?.length) {
+    const results = trustedAuthResults(mail, auth.trustedServers);
+    for (const method of AUTH_METHODS) verdicts[method] = results ? "none" : "no trusted Authentication-Results";
+    if (results) {
+      verdicts.spf = verdict(results, "spf", (r) => !!r.props["smtp.mailfrom"] && aligned(domainOf(r.props["smtp.mailfrom"]), fromDomain));
+      verdicts.dkim = verdict(results, "dkim", (r) => aligned(r.props["header.d"] || domainOf(r.props["header.i"] || ""), fromDomain));
+      verdicts.dmarc = verdict(results, "dmarc", () => true);
+    }
+  }
+  if (auth.localDkim && verdicts.dkim !== "pass" && fromDomain) verdicts.dkim = await localDkim(raw, fromDomain);
+  return verdicts;
+}
+
+// Reason the first unmet requirement fails, or null
+export function authFailure(required: AuthMethod[] | undefined, ctx: SenderContext): string | null {
+  for (const m of required || []) {
+    const result = ctx.auth[m] || "none";
+    if (result !== "pass") return `${m.toUpperCase()} ${result}`;
+  }
+  return null;
+}
+
+export function senderPolicyFailure(policy: SenderPolicy | undefined, ctx: SenderContext): string | null {
+  if (!policy) return null;
+  return senderListFailure(ctx.address, policy.allow, policy.deny) || authFailure(policy.requireAuth, ctx);
+}
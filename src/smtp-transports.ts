@@ -0,0 +1,155 @@
+// SMTP transports - named relays, per-rule failover order, sender identities and a circuit breaker
+
+import { existsSync, readFileSync } from "fs";
+import { SendMailOptions } from "nodemailer";
+import SMTPTransport from "nodemailer/lib/smtp-transport";
+
+export interface SmtpTransport {
+  name: string;
+  host: string;
+  port: number;
+  secure: boolean;
+  auth: { user: string; pass: string };
+  // From address for mail sent through this relay; defaults to auth.user
+  from?: string;
+  // Consecutive failures after which the transport is skipped for cooldownSeconds
+  maxFailures?: number;
+  cooldownSeconds?: number;
+  // Messages sent through this relay at once; further sends wait their turn
+  maxConcurrent?: number;
+}
+
+// DKIM key for a rule's From domain; the key is given inline or as a PEM file
+export interface DkimConfig {
+  domainName: string;
+  keySelector: string;
+  privateKey?: string;
+  privateKeyFile?: string;
+}
+
+// Who a rule's forwarded copies come from; replyTo replaces the original sender
+// in inline and attachment modes
+export interface SenderIdentity {
+  from?: string;
+  replyTo?: string;
+  dkim?: DkimConfig;
+}
+
+export const DEFAULT_TRANSPORT = "default";
+export const DEFAULT_MAX_FAILURES = 3;
+export const DEFAULT_COOLDOWN_SECONDS = 300;
+export const DEFAULT_MAX_CONCURRENT = 5;
+
+function validateTransport(t: SmtpTransport, path: string): void {
+  if (!t || typeof t !== "object" || Array.isArray(t)) throw new Error(`${path}: must be an object`);
+  if (typeof t.name !== "string" || !/^[\w.-]+$/.test(t.name)) throw new Error(`${path}.name: must be letters, digits, ".", "_" or "-"`);
+  if (typeof t.host !== "string" || !t.host) throw new Error(`${path}.host: must be a host name`);
+  if (!Number.isInteger(t.port) || t.port <= 0) throw new Error(`${path}.port: must be a port number`);
+  if (typeof t.secure !== "boolean") throw new Error(`${path}.secure: must be true or false`);
+  if (!t.auth || typeof t.auth.user !== "string" || typeof t.auth.pass !== "string") throw new Error(`${path}.auth: needs user and pass`);
+  if (t.from !== undefined && !isAddress(t.from)) throw new Error(`${path}.from: must be an email address`);
+  if (t.maxFailures !== undefined && (!Number.isInteger(t.maxFailures) || t.maxFailures <= 0)) throw new Error(`${path}.maxFailures: must be a positive integer`);
+  if (t.cooldownSeconds !== undefined && !(t.cooldownSeconds > 0)) throw new Error(`${path}.cooldownSeconds: must be positive`);
+  if (t.maxConcurrent !== undefined && (!Number.isInteger(t.maxConcurrent) || t.maxConcurrent <= 0)) throw new Error(`${path}.maxConcurrent: must be a positive integer`);
+}
+
+// "a@b.com" or "Name <a@b.com>"
+function isAddress(value: unknown): boolean {
+  return typeof value === "string" && /^([^<>]*<[^<>\s@]+@[^<>\s@]+>|[^<>\s@]+@[^<>\s@]+)$/.test(value.trim());
+}
+
+// A single transport object is accepted and named "default"; the first transport
+// is used by rules that do not choose one
+export function normalizeTransports(smtp: unknown): SmtpTransport[] {
+  const list = Array.isArray(smtp) ? smtp : smtp && typeof smtp === "object" ? [{ name: DEFAULT_TRANSPORT, ...smtp }] : null;
+  if (!list?.length) throw new Error("smtp: must be a transport object or a non-empty list of named transports");
+  const seen = new Set<string>();
+  list.forEach((t: SmtpTransport, i) => {
+    const path = Array.isArray(smtp) ? `smtp[${i}]` : "smtp";
+    validateTransport(t, path);
+    if (seen.has(t.name)) throw new Error(`${path}.name: duplicate transport "${t.name}"`);
+    seen.add(t.name);
+  });
+  return list;
+}
+
+export function validateIdentity(identity: SenderIdentity | undefined, path: string): void {
+  if (identity === undefined) return;
+  if (!identity || typeof identity !== "object" || Array.isArray(identity)) throw new Error(`${path}: must be an object`);
+  for (const key of Object.keys(identity)) {
+    if (!["from", "replyTo", "dkim"].includes(key)) throw new Error(`${path}.${key}: unknown field`);
+  }
+  if (identity.from !== undefined && !isAddress(identity.from)) throw new Error(`${path}.from: must be an email address`);
+  if (identity.replyTo !== undefined && !isAddress(identity.replyTo)) throw new Error(`${path}.replyTo: must be an email address`);
+  const dkim = identity.dkim;
+  if (dkim === undefined) return;
+  if (!dkim || typeof dkim !== "object") throw new Error(`${path}.dkim: must be an object`);
+  if (typeof dkim.domainName !== "string" || !dkim.domainName) throw new Error(`${path}.dkim.domainName: required`);
+  if (typeof dkim.keySelector !== "string" || !dkim.keySelector) throw new Error(`${path}.dkim.keySelector: required`);
+  if ((dkim.privateKey === undefined) === (dkim.privateKeyFile === undefined)) throw new Error(`${path}.dkim: needs privateKey or privateKeyFile`);
+  if (dkim.privateKeyFile !== undefined && !existsSync(dkim.privateKeyFile)) throw new Error(`${path}.dkim.privateKeyFile: ${dkim.privateKeyFile} not found`);
+}
+
+// nodemailer options for a transport; other nodemailer settings (tls, pool ...) pass through
+export function transportOptions({ name, from, maxFailures, cooldownSeconds, maxConcurrent, ...options }: SmtpTransport): SMTPTransport.Options {
+  return options;
+}
+
+// nodemailer signing options; a key file is read on every use so it can be rotated in place
+export function dkimOptions(dkim: DkimConfig | undefined): SendMailOptions["dkim"] {
+  if (!dkim) return undefined;
+  return { domainName: dkim.domainName, keySelector: dkim.keySelector, privateKey: dkim.privateKey ?? readFileSync(dkim.privateKeyFile!, "utf-8") };
+}
+
+// Recipient refusals (unknown mailbox etc.) would fail on every relay, so they
+// neither fail over nor count against the transport
+export function isRecipientError(err: unknown): boolean {
+  const e = err as { command?: string; responseCode?: number };
+  return e?.command === "RCPT TO" && typeof e.responseCode === "number" && e.responseCode >= 500;
+}
+
+export interface CircuitState {
+  failures: number;
+  // While set and in the future the transport is skipped
+  openUntil: number | null;
+  lastError?: string;
+}
+
+// Consecutive failures per transport. Once the cooldown has passed the transport
+// gets one more try; a failure then opens the circuit again right away.
+export function createCircuitBreaker() {
+  const states = new Map<string, CircuitState>();
+
+  return {
+    available(name: string, now = Date.now()): boolean {
+      const openUntil = states.get(name)?.openUntil;
+      return !openUntil || openUntil <= now;
+    },
+
+    success(name: string): void {
+      states.delete(name);
+    },
+
+    // Returns true when this failure opened the circuit (sends already under way may
+    // still fail after it opened; those do not extend it)
+    failure(transport: SmtpTransport, error: string, now = Date.now()): boolean {
+      const state = states.get(transport.name) || { failures: 0, openUntil: null };
+      if (state.openUntil && state.openUntil > now) return false;
+      state.failures++;
+      state.lastError = error;
+      states.set(transport.name, state);
+      if (state.failures < (transport.maxFailures ?? DEFAULT_MAX_FAILURES)) return false;
+      state.openUntil = now + (transport.cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS) * 1000;
+      return true;
+    },
+
+    state(name: string): CircuitState {
+      return states.get(name) || { failures: 0, openUntil: null };
+    },
+
+    // Forget transports that are no longer configured
+    retain(names: string[]): void {
+      for (const name of states.keys()) if (!names.includes(name)) states.delete(name);
+    },
+  };
+}
@@ -0,0 +1,147 @@
+// Outbound webhooks - signed JSON notifications about forwarding events
+
+import { createHmac } from "crypto";
+import { RecipientResult } from "./reply-template";
+
+export type WebhookEvent = "received" | "forwarded" | "partially_failed" | "rejected_sender" | "no_rule" | "suppressed" | "held";
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ["received", "forwarded", "partially_failed", "rejected_sender", "no_rule", "suppressed", "held"];
+
+export interface WebhookTarget {
+  name: string;
+  url: string;
+  // HMAC-SHA256 key for the X-MailExchange-Signature header
+  secret: string;
+  events: WebhookEvent[];
+}
+
+// Payload format version 1; fields are only ever added, never renamed or removed
+export interface WebhookPayload {
+  version: 1;
+  // Unique per event; the same for every target and every retry
+  id: string;
+  event: WebhookEvent;
+  timestamp: string;
+  message: {
+    subject: string;
+    from: string;
+    fromAddress: string;
+    messageId: string | null;
+    account: string | null;
+    folder: string | null;
+    size: number | null;
+    attachments: { filename: string; contentType: string; size: number }[];
+  };
+  // null for received, no_rule and held (no task is created)
+  task: {
+    id: number;
+    status: "success" | "failed" | "pending" | "rejected" | "suppressed";
+    matchedRules: string[];
+    recipients: string[];
+    error: string | null;
+    duration: number | null;
+    // false while some recipients are still in the retry queue; a final event follows
+    final: boolean;
+  } | null;
+  results: {
+    email: string;
+    rule: string | null;
+    success: boolean;
+    pending: boolean;
+    attempts: number;
+    error: string | null;
+  }[];
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+// One payload for one target, persisted so retries survive a restart
+export interface WebhookDelivery {
+  id: string;
+  webhook: string;
+  event: WebhookEvent;
+  taskId: number | null;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+const RETRY_DELAYS = [10, 60, 300, 900, 3600].map((s) => s * 1000);
+const TIMEOUT = 10 * 1000;
+
+// Reject malformed webhook targets; throws with the offending config path
+export function validateWebhooks(targets: unknown): void {
+  if (targets === undefined) return;
+  if (!Array.isArray(targets)) throw new Error("webhooks: must be an array");
+  const names = new Set<string>();
+  targets.forEach((t: WebhookTarget, i) => {
+    const path = `webhooks[${i}]`;
+    if (!t || typeof t !== "object") throw new Error(`${path}: must be an object`);
+    if (!t.name || typeof t.name !== "string") throw new Error(`${path}.name: required`);
+    if (names.has(t.name)) throw new Error(`${path}.name: duplicate "${t.name}"`);
+    names.add(t.name);
+    let url: URL;
+    try {
+      url = new URL(t.url);
+    } catch {
+      throw new Error(`${path}.url: must be an http(s) URL`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error(`${path}.url: must be an http(s) URL`);
+    if (typeof t.secret !== "string" || t.secret.length < 16) throw new Error(`${path}.secret: must be at least 16 characters`);
+    if (!Array.isArray(t.events) || !t.events.length) throw new Error(`${path}.events: must list at least one event`);
+    for (const e of t.events) {
+      if (!WEBHOOK_EVENTS.includes(e)) throw new Error(`${path}.events: "${e}" must be one of ${WEBHOOK_EVENTS.join(", ")}`);
+    }
+  });
+}
+
+// Signature over "<timestamp>.<body>" so a captured request cannot be replayed with a new timestamp
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function webhookResults(results: RecipientResult[]): WebhookPayload["results"] {
+  return results.map((r) => ({
+    email: r.email,
+    rule: r.rule ?? null,
+    success: r.success,
+    pending: !!r.pending,
+    attempts: r.attempts ?? 1,
+    error: r.error ?? null,
+  }));
+}
+
+// Delay before the next attempt, or null once attempts are exhausted
+export function webhookRetryDelay(attempts: number): number | null {
+  return attempts >= WEBHOOK_MAX_ATTEMPTS ? null : RETRY_DELAYS[Math.min(attempts - 1, RETRY_DELAYS.length - 1)];
+}
+
+// POST one delivery; resolves with the HTTP status, rejects on network errors and non-2xx responses
+export async function postWebhook(target: WebhookTarget, delivery: WebhookDelivery): Promise<number> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const res = await fetch(target.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "mail-exchange-webhook/1",
+      "X-MailExchange-Event": delivery.event,
+      "X-MailExchange-Delivery": delivery.id,
+      "X-MailExchange-Timestamp": String(timestamp),
+      "X-MailExchange-Signature": signWebhook(target.secret, timestamp, delivery.payload),
+    },
+    body: delivery.payload,
+    signal: AbortSignal.timeout(TIMEOUT),
+  });
+  if (!res.ok) {
+    const err = new Error(`HTTP ${res.status}`) as Error & { status?: number };
+    err.status = res.status;
+    throw err;
+  }
+  return res.status;
+}